@@ -0,0 +1,158 @@
+import {describe, expect, jest, test} from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {ExecOutput} from '@actions/exec';
+import {Docker} from '@docker/actions-toolkit/lib/docker/docker';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+
+import * as binfmt from '../src/binfmt';
+
+const tmpDir = fs.mkdtempSync(path.join(process.env.TEMP || os.tmpdir(), 'binfmt-jest-'));
+
+function execOutput(exitCode: number, stdout = '', stderr = ''): ExecOutput {
+  return {exitCode: exitCode, stdout: stdout, stderr: stderr};
+}
+
+const workers = `ID:		k3nd9s1r0yqk2m3l4b5v6c7x8
+Platforms:	linux/amd64,linux/amd64/v2,linux/amd64/v3,linux/386
+BuildKit:	github.com/moby/buildkit v0.13.2 2ae42e0c0c793d7d66b7a23424af6fd6c2f9c8f3
+Labels:
+	org.mobyproject.buildkit.worker.executor:	oci
+	org.mobyproject.buildkit.worker.snapshotter:	overlayfs
+`;
+
+describe('qemuArch', () => {
+  // prettier-ignore
+  test.each([
+    ['linux/arm64', 'aarch64'],
+    ['linux/arm/v7', 'arm'],
+    ['linux/riscv64', 'riscv64'],
+    ['linux/386', 'i386']
+  ])('given %p, returns %p', async (platform: string, expected: string) => {
+    expect(binfmt.qemuArch(platform)).toEqual(expected);
+  });
+
+  test('unsupported platform', async () => {
+    expect(() => binfmt.qemuArch('windows/amd64')).toThrow('Cannot emulate platform "windows/amd64"');
+  });
+});
+
+describe('registered', () => {
+  test('enabled handlers', async () => {
+    const dir = fs.mkdtempSync(path.join(tmpDir, 'binfmt_misc-'));
+    fs.writeFileSync(path.join(dir, 'register'), '');
+    fs.writeFileSync(path.join(dir, 'status'), 'enabled\n');
+    fs.writeFileSync(path.join(dir, 'qemu-aarch64'), 'enabled\ninterpreter /usr/bin/qemu-aarch64\nflags: POCF\n');
+    fs.writeFileSync(path.join(dir, 'qemu-riscv64'), 'disabled\ninterpreter /usr/bin/qemu-riscv64\nflags: POCF\n');
+    expect(binfmt.registered(dir)).toEqual(['aarch64']);
+  });
+
+  test('binfmt_misc not mounted', async () => {
+    expect(binfmt.registered(path.join(tmpDir, 'notfound'))).toEqual([]);
+  });
+});
+
+describe('missing', () => {
+  test('skips native and registered archs', async () => {
+    jest.spyOn(os, 'arch').mockReturnValue('x64');
+    expect(binfmt.missing(['linux/amd64', 'linux/arm64', 'linux/arm/v7', 'linux/arm/v6', 'linux/s390x'], ['s390x'])).toEqual(['aarch64', 'arm']);
+  });
+});
+
+describe('install', () => {
+  test('with binfmt image', async () => {
+    jest.spyOn(Docker, 'isAvailable').mockResolvedValue(true);
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0));
+    await binfmt.install(['aarch64', 'riscv64'], 'tonistiigi/binfmt:latest');
+    expect(execSpy).toHaveBeenCalledWith('docker', ['run', '--rm', '--privileged', 'tonistiigi/binfmt:latest', '--install', 'aarch64,riscv64'], expect.anything());
+  });
+
+  describe('with static binaries', () => {
+    function staticPaths(): binfmt.StaticPaths {
+      const dir = fs.mkdtempSync(path.join(tmpDir, 'static-'));
+      const paths = {bin: path.join(dir, 'bin'), conf: path.join(dir, 'binfmt.d'), binfmt: path.join(dir, 'binfmt_misc')};
+      for (const p of Object.values(paths)) {
+        fs.mkdirSync(p);
+      }
+      return paths;
+    }
+
+    // Registers handlers the way the kernel would, when written to.
+    function mockExec(paths: binfmt.StaticPaths, register = true) {
+      return jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string, args?: string[]): Promise<ExecOutput> => {
+        const match = args?.[2]?.match(/^cat .*\/qemu-(.+)-static\.conf > /) || args?.[2]?.match(/^echo 1 > .*\/qemu-(.+)$/);
+        if (register && match) {
+          fs.writeFileSync(path.join(paths.binfmt, `qemu-${match[1]}`), 'enabled\n');
+        }
+        return execOutput(0);
+      });
+    }
+
+    test('installs qemu-user-static and registers its handler', async () => {
+      jest.spyOn(Docker, 'isAvailable').mockResolvedValue(false);
+      const paths = staticPaths();
+      fs.writeFileSync(path.join(paths.conf, 'qemu-aarch64-static.conf'), ':qemu-aarch64:M::\\x7fELF:\\xff:/usr/bin/qemu-aarch64-static:F\n');
+      const execSpy = mockExec(paths);
+      await binfmt.install(['aarch64'], 'tonistiigi/binfmt:latest', paths);
+      expect(execSpy).toHaveBeenCalledWith('sudo', ['apt-get', 'install', '-y', '-q', '--no-install-recommends', 'qemu-user-static'], expect.anything());
+      expect(execSpy).toHaveBeenCalledWith('sudo', ['sh', '-c', `cat ${path.join(paths.conf, 'qemu-aarch64-static.conf')} > ${path.join(paths.binfmt, 'register')}`], expect.anything());
+    });
+
+    test('enables a disabled handler', async () => {
+      jest.spyOn(Docker, 'isAvailable').mockResolvedValue(false);
+      const paths = staticPaths();
+      fs.writeFileSync(path.join(paths.bin, 'qemu-aarch64-static'), '');
+      fs.writeFileSync(path.join(paths.binfmt, 'qemu-aarch64'), 'disabled\n');
+      const execSpy = mockExec(paths);
+      await binfmt.install(['aarch64'], 'tonistiigi/binfmt:latest', paths);
+      expect(execSpy).not.toHaveBeenCalledWith('sudo', expect.arrayContaining(['apt-get']), expect.anything());
+      expect(execSpy).toHaveBeenCalledWith('sudo', ['sh', '-c', `echo 1 > ${path.join(paths.binfmt, 'qemu-aarch64')}`], expect.anything());
+    });
+
+    test('fails if the handler is not registered', async () => {
+      jest.spyOn(Docker, 'isAvailable').mockResolvedValue(false);
+      const paths = staticPaths();
+      const execSpy = mockExec(paths, false);
+      await expect(binfmt.install(['aarch64'], 'tonistiigi/binfmt:latest', paths)).rejects.toThrow('Cannot register static qemu-aarch64 with binfmt_misc');
+      expect(execSpy).toHaveBeenCalledWith('sudo', ['update-binfmts', '--enable', 'qemu-aarch64'], expect.anything());
+    });
+  });
+});
+
+describe('parseWorkerPlatforms', () => {
+  test('workers platforms', async () => {
+    expect(binfmt.parseWorkerPlatforms(workers)).toEqual(['linux/amd64', 'linux/amd64/v2', 'linux/amd64/v3', 'linux/386']);
+  });
+});
+
+describe('normalizePlatform', () => {
+  // prettier-ignore
+  test.each([
+    ['linux/arm', 'linux/arm/v7'],
+    ['linux/arm/v6', 'linux/arm/v6'],
+    ['linux/arm64/v8', 'linux/arm64'],
+    ['linux/amd64/v1', 'linux/amd64'],
+    ['linux/amd64/v2', 'linux/amd64/v2'],
+    [' linux/riscv64 ', 'linux/riscv64']
+  ])('given %p, returns %p', async (platform: string, expected: string) => {
+    expect(binfmt.normalizePlatform(platform)).toEqual(expected);
+  });
+});
+
+describe('verify', () => {
+  test('normalized platforms', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0, workers.replace('linux/386', 'linux/386,linux/arm/v7,linux/arm64')));
+    expect(await binfmt.verify('unix:///run/buildkit/buildkitd.sock', [], ['linux/arm', 'linux/arm64/v8'])).toContain('linux/arm/v7');
+  });
+
+  test('supported platforms', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0, workers.replace('linux/386', 'linux/386,linux/arm64')));
+    expect(await binfmt.verify('unix:///run/buildkit/buildkitd.sock', [], ['linux/arm64'])).toContain('linux/arm64');
+  });
+
+  test('unsupported platforms', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0, workers));
+    await expect(binfmt.verify('unix:///run/buildkit/buildkitd.sock', [], ['linux/arm64', 'linux/386'])).rejects.toThrow("buildkitd workers don't support linux/arm64 (available: linux/amd64, linux/amd64/v2, linux/amd64/v3, linux/386)");
+  });
+});
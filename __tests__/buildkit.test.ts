@@ -0,0 +1,215 @@
+import {describe, expect, jest, test} from '@jest/globals';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as cache from '@actions/cache';
+import * as tc from '@actions/tool-cache';
+import axios from 'axios';
+
+import * as buildkit from '../src/buildkit';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+const tmpDir = fs.mkdtempSync(path.join(process.env.TEMP || os.tmpdir(), 'buildkit-jest-'));
+
+const releases = {
+  latest: {
+    id: 159437498,
+    tag_name: 'v0.14.1',
+    html_url: 'https://github.com/moby/buildkit/releases/tag/v0.14.1',
+    assets: [
+      'https://github.com/moby/buildkit/releases/download/v0.14.1/buildkit-v0.14.1.linux-amd64.tar.gz',
+      'https://github.com/moby/buildkit/releases/download/v0.14.1/buildkit-v0.14.1.linux-arm64.tar.gz',
+      'https://github.com/moby/buildkit/releases/download/v0.14.1/checksums.txt'
+    ]
+  },
+  'v0.13.2': {
+    id: 153318236,
+    tag_name: 'v0.13.2',
+    html_url: 'https://github.com/moby/buildkit/releases/tag/v0.13.2',
+    assets: ['https://github.com/moby/buildkit/releases/download/v0.13.2/buildkit-v0.13.2.linux-amd64.tar.gz']
+  }
+};
+
+describe('platformArch', () => {
+  // prettier-ignore
+  test.each([
+    ['x64', 'amd64'],
+    ['arm64', 'arm64'],
+    ['ppc64', 'ppc64le'],
+    ['riscv64', 'riscv64'],
+    ['s390x', 's390x']
+  ])('given %p arch, returns %p', async (arch: string, expected: string) => {
+    jest.spyOn(os, 'arch').mockReturnValue(arch);
+    expect(buildkit.platformArch()).toEqual(expected);
+  });
+});
+
+describe('getDownloadVersion', () => {
+  // prettier-ignore
+  test.each([
+    ['latest', 'x64', 'https://github.com/moby/buildkit/releases/download/v0.14.1/buildkit-v0.14.1.linux-amd64.tar.gz'],
+    ['latest', 'arm64', 'https://github.com/moby/buildkit/releases/download/v0.14.1/buildkit-v0.14.1.linux-arm64.tar.gz'],
+    ['v0.13.2', 'x64', 'https://github.com/moby/buildkit/releases/download/v0.13.2/buildkit-v0.13.2.linux-amd64.tar.gz'],
+    ['0.13.2', 'x64', 'https://github.com/moby/buildkit/releases/download/v0.13.2/buildkit-v0.13.2.linux-amd64.tar.gz']
+  ])('given %p version on %p, returns %p', async (version: string, arch: string, expected: string) => {
+    jest.spyOn(os, 'arch').mockReturnValue(arch);
+    jest.spyOn(axios, 'get').mockResolvedValue({status: 200, data: JSON.stringify(releases)});
+    const res = await buildkit.getDownloadVersion(version);
+    expect(res.url).toEqual(expected);
+  });
+
+  test('fails on unknown release', async () => {
+    jest.spyOn(axios, 'get').mockResolvedValue({status: 200, data: JSON.stringify(releases)});
+    await expect(buildkit.getDownloadVersion('v0.1.0')).rejects.toThrow(`Cannot find BuildKit release v0.1.0 in ${buildkit.releasesURL}`);
+  });
+
+  test('fails on missing arch asset', async () => {
+    jest.spyOn(os, 'arch').mockReturnValue('arm64');
+    jest.spyOn(axios, 'get').mockResolvedValue({status: 200, data: JSON.stringify(releases)});
+    await expect(buildkit.getDownloadVersion('v0.13.2')).rejects.toThrow('BuildKit v0.13.2 does not provide a release for linux/arm64 (buildkit-v0.13.2.linux-arm64.tar.gz not found)');
+  });
+});
+
+describe('parseVersion', () => {
+  // prettier-ignore
+  test.each([
+    ['buildkitd github.com/moby/buildkit v0.13.2 2ae42e0c0c793d7d66b7a23424af6fd6c2f9c8f3', '0.13.2'],
+    ['buildkitd github.com/moby/buildkit v0.14.0-rc1 3b4f0b9c', '0.14.0-rc1'],
+    ['buildkitd github.com/moby/buildkit 0.12.5 bac3f2b', '0.12.5'],
+    ['buildkitd: command not found', undefined]
+  ])('given %p, returns %p', async (stdout: string, expected: string | undefined) => {
+    expect(buildkit.parseVersion(stdout)).toEqual(expected);
+  });
+});
+
+describe('versionSatisfies', () => {
+  // prettier-ignore
+  test.each([
+    ['0.13.2', '>=0.13.0', true],
+    ['0.12.5', '>=0.13.0', false],
+    ['0.14.0-rc1', '>=0.13.0', true],
+    ['0.13.2', '~0.13', true]
+  ])('given %p and %p, returns %p', async (version: string, range: string, expected: boolean) => {
+    expect(buildkit.versionSatisfies(version, range)).toEqual(expected);
+  });
+});
+
+describe('download', () => {
+  const tarPath = path.join(fixturesDir, 'buildkitd.toml');
+  const digest = crypto.createHash('sha256').update(fs.readFileSync(tarPath)).digest('hex');
+
+  // Hosted tool cache entry holding binaries verified against digest.
+  function htcEntry(digest?: string): string {
+    const htcPath = path.join(fs.mkdtempSync(path.join(tmpDir, 'htc-')), 'amd64');
+    fs.mkdirSync(htcPath);
+    if (digest) {
+      fs.writeFileSync(`${htcPath}.sha256`, digest);
+    }
+    return htcPath;
+  }
+
+  function mockRelease(checksums: string, htcPath = '') {
+    jest.spyOn(os, 'arch').mockReturnValue('x64');
+    jest.spyOn(cache, 'isFeatureAvailable').mockReturnValue(false);
+    const getSpy = jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      return {status: 200, data: url.endsWith('/checksums.txt') ? checksums : JSON.stringify(releases)};
+    });
+    const cachePath = htcEntry();
+    return {
+      findSpy: jest.spyOn(tc, 'find').mockReturnValue(htcPath),
+      getSpy: getSpy,
+      downloadSpy: jest.spyOn(tc, 'downloadTool').mockResolvedValue(tarPath),
+      extractSpy: jest.spyOn(tc, 'extractTar').mockResolvedValue('/tmp/buildkit'),
+      cacheSpy: jest.spyOn(tc, 'cacheDir').mockResolvedValue(cachePath),
+      cachePath: cachePath
+    };
+  }
+
+  test('uses hosted tool cache for pinned version and digest', async () => {
+    const htcPath = htcEntry(digest);
+    const {findSpy, getSpy} = mockRelease('', htcPath);
+    expect(await buildkit.download({version: '0.13.2', sha256: `sha256:${digest}`})).toEqual(htcPath);
+    expect(findSpy).toHaveBeenCalledWith('buildkit-dl-bin', '0.13.2', 'amd64');
+    expect(getSpy).not.toHaveBeenCalled();
+  });
+
+  test('resolves latest before looking up the cache', async () => {
+    const htcPath = htcEntry(digest);
+    const {findSpy, downloadSpy} = mockRelease(`${digest}  buildkit-v0.14.1.linux-amd64.tar.gz\n`, htcPath);
+    expect(await buildkit.download({version: 'latest'})).toEqual(htcPath);
+    expect(findSpy).toHaveBeenCalledWith('buildkit-dl-bin', '0.14.1', 'amd64');
+    expect(downloadSpy).not.toHaveBeenCalled();
+  });
+
+  test('ignores cached binaries of another digest', async () => {
+    const {extractSpy, cachePath} = mockRelease('', htcEntry('f'.repeat(64)));
+    expect(await buildkit.download({version: '0.13.2', sha256: digest})).toEqual(cachePath);
+    expect(extractSpy).toHaveBeenCalledWith(tarPath);
+    expect(fs.readFileSync(`${cachePath}.sha256`, 'utf8')).toEqual(digest);
+  });
+
+  test('ignores cached binaries without digest', async () => {
+    const {extractSpy} = mockRelease(`${digest}  buildkit-v0.14.1.linux-amd64.tar.gz\n`, htcEntry());
+    await buildkit.download({version: 'latest'});
+    expect(extractSpy).toHaveBeenCalledWith(tarPath);
+  });
+
+  test('restores GitHub Actions cache by digest', async () => {
+    const {cachePath} = mockRelease('');
+    jest.spyOn(cache, 'isFeatureAvailable').mockReturnValue(true);
+    const restoreSpy = jest.spyOn(cache, 'restoreCache').mockResolvedValue('hit');
+    expect(await buildkit.download({version: '0.13.2', sha256: digest})).toEqual(cachePath);
+    expect(restoreSpy).toHaveBeenCalledWith([expect.any(String)], `buildkit-dl-bin-v0.13.2-linux-amd64-${digest}`);
+    expect(fs.readFileSync(`${cachePath}.sha256`, 'utf8')).toEqual(digest);
+  });
+
+  test('refuses a mismatching digest', async () => {
+    const {downloadSpy, extractSpy, cacheSpy} = mockRelease(`${'0'.repeat(64)}  buildkit-v0.14.1.linux-amd64.tar.gz\n`);
+    await expect(buildkit.download({version: 'latest'})).rejects.toThrow(`Checksum mismatch for buildkitd.toml: expected sha256:${'0'.repeat(64)}, got sha256:${digest}`);
+    expect(downloadSpy).toHaveBeenCalledWith('https://github.com/moby/buildkit/releases/download/v0.14.1/buildkit-v0.14.1.linux-amd64.tar.gz');
+    expect(extractSpy).not.toHaveBeenCalled();
+    expect(cacheSpy).not.toHaveBeenCalled();
+  });
+
+  test('refuses a release without checksum', async () => {
+    const {downloadSpy} = mockRelease('');
+    await expect(buildkit.download({version: 'v0.13.2'})).rejects.toThrow(
+      'No published checksum found for buildkit-v0.13.2.linux-amd64.tar.gz. Set buildkit-sha256 input to pin the digest, or buildkit-skip-verify to install it unverified.'
+    );
+    expect(downloadSpy).not.toHaveBeenCalled();
+  });
+
+  test('skips verification when asked', async () => {
+    const {extractSpy} = mockRelease('');
+    await buildkit.download({version: 'v0.13.2', skipVerify: true});
+    expect(extractSpy).toHaveBeenCalledWith(tarPath);
+  });
+});
+
+describe('parseChecksums', () => {
+  const checksums = `7e3b4b1d5b8e5fbf2e0ba5d4bf3c3f8a11e2d3b1f6f2c5b0a4d2d1e8f0c9b7a6  buildkit-v0.13.2.linux-amd64.tar.gz
+1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90a *buildkit-v0.13.2.linux-arm64.tar.gz
+`;
+  // prettier-ignore
+  test.each([
+    ['buildkit-v0.13.2.linux-amd64.tar.gz', '7e3b4b1d5b8e5fbf2e0ba5d4bf3c3f8a11e2d3b1f6f2c5b0a4d2d1e8f0c9b7a6'],
+    ['buildkit-v0.13.2.linux-arm64.tar.gz', '1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90a'],
+    ['buildkit-v0.13.2.linux-s390x.tar.gz', undefined]
+  ])('given %p, returns %p', async (file: string, expected: string | undefined) => {
+    expect(buildkit.parseChecksums(checksums, file)).toEqual(expected);
+  });
+});
+
+describe('verifyChecksum', () => {
+  const tarPath = path.join(fixturesDir, 'buildkitd.toml');
+  const digest = crypto.createHash('sha256').update(fs.readFileSync(tarPath)).digest('hex');
+
+  test('matching digest', async () => {
+    await expect(buildkit.verifyChecksum(tarPath, `sha256:${digest}`)).resolves.toBeUndefined();
+  });
+
+  test('mismatching digest', async () => {
+    await expect(buildkit.verifyChecksum(tarPath, '0'.repeat(64))).rejects.toThrow(`Checksum mismatch for buildkitd.toml: expected sha256:${'0'.repeat(64)}, got sha256:${digest}`);
+  });
+});
@@ -0,0 +1,571 @@
+import {beforeEach, describe, expect, jest, test} from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {ExecOutput} from '@actions/exec';
+import * as TOML from '@iarna/toml';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+import {Util} from '@docker/actions-toolkit/lib/util';
+
+import * as buildkitd from '../src/buildkitd';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+const tmpDir = fs.mkdtempSync(path.join(process.env.TEMP || os.tmpdir(), 'buildkitd-jest-'));
+
+function execOutput(exitCode: number, stdout = '', stderr = ''): ExecOutput {
+  return {exitCode: exitCode, stdout: stdout, stderr: stderr};
+}
+
+describe('waitReady', () => {
+  beforeEach(() => {
+    process.chdir(tmpDir);
+    fs.writeFileSync(buildkitd.logFile, 'time="2024-06-01T10:00:00Z" level=info msg="auto snapshotter: using overlayfs"\ntime="2024-06-01T10:00:00Z" level=fatal msg="failed to parse config"\n');
+    jest.spyOn(Util, 'sleep').mockResolvedValue(undefined);
+  });
+
+  test('returns once workers answer', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string): Promise<ExecOutput> => {
+      if (cmd == 'sudo') {
+        return execOutput(0);
+      }
+      return execSpy.mock.calls.filter(call => call[0] == 'buildctl').length < 3 ? execOutput(1, '', 'connection refused') : execOutput(0, 'ID  PLATFORMS');
+    });
+    await expect(buildkitd.waitReady({addr: 'tcp://127.0.0.1:1234', pid: 4242})).resolves.toBeUndefined();
+    expect(execSpy).toHaveBeenCalledWith('buildctl', ['--addr', 'tcp://127.0.0.1:1234', 'debug', 'workers'], expect.anything());
+  });
+
+  test('fails with log tail when daemon exits', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(1));
+    await expect(buildkitd.waitReady({addr: 'tcp://127.0.0.1:1234', pid: 4242})).rejects.toThrow(
+      'buildkitd exited before becoming ready:\ntime="2024-06-01T10:00:00Z" level=info msg="auto snapshotter: using overlayfs"\ntime="2024-06-01T10:00:00Z" level=fatal msg="failed to parse config"'
+    );
+  });
+
+  test('fails after timeout', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string): Promise<ExecOutput> => {
+      return cmd == 'sudo' ? execOutput(0) : execOutput(1, '', 'connection refused');
+    });
+    await expect(buildkitd.waitReady({addr: 'tcp://127.0.0.1:1234', pid: 4242, timeout: 0})).rejects.toThrow('buildkitd is not ready after 0s (connection refused):\ntime=');
+  });
+});
+
+describe('mergeConfig', () => {
+  const generated: TOML.JsonMap = {
+    worker: {
+      oci: {
+        enabled: true,
+        gc: true,
+        gckeepstorage: 1000,
+        gcpolicy: [
+          {keepBytes: 1000, keepDuration: 172800},
+          {all: true, keepBytes: 1000}
+        ]
+      }
+    }
+  };
+
+  test('adds user tables', async () => {
+    const user = TOML.parse(`
+[registry."docker.io"]
+  mirrors = ["mirror.gcr.io"]
+
+[worker.oci]
+  max-parallelism = 4
+`);
+    expect(buildkitd.mergeConfig(generated, user)).toEqual({
+      registry: {
+        'docker.io': {
+          mirrors: ['mirror.gcr.io']
+        }
+      },
+      worker: {
+        oci: {
+          enabled: true,
+          gc: true,
+          gckeepstorage: 1000,
+          gcpolicy: [
+            {keepBytes: 1000, keepDuration: 172800},
+            {all: true, keepBytes: 1000}
+          ],
+          'max-parallelism': 4
+        }
+      }
+    });
+  });
+
+  test('user values win on conflicts', async () => {
+    const user = TOML.parse(`
+[worker.oci]
+  gckeepstorage = 500
+
+[[worker.oci.gcpolicy]]
+  all = true
+  keepBytes = 500
+`);
+    expect(buildkitd.mergeConfig(generated, user)).toEqual({
+      worker: {
+        oci: {
+          enabled: true,
+          gc: true,
+          gckeepstorage: 500,
+          gcpolicy: [{all: true, keepBytes: 500}]
+        }
+      }
+    });
+  });
+});
+
+describe('parseUserConfig', () => {
+  test('from file', async () => {
+    expect(buildkitd.parseUserConfig(path.join(fixturesDir, 'buildkitd.toml'), '')).toEqual({debug: true});
+  });
+
+  test('from inline', async () => {
+    expect(buildkitd.parseUserConfig('', 'debug = true')).toEqual({debug: true});
+  });
+
+  test('none', async () => {
+    expect(buildkitd.parseUserConfig('', '')).toBeUndefined();
+  });
+
+  test('invalid', async () => {
+    expect(() => buildkitd.parseUserConfig('', 'debug = ')).toThrow(/^Invalid buildkitd config: /);
+  });
+});
+
+describe('getRegistryConfig', () => {
+  test('mirrors, http, insecure and ca', async () => {
+    const caDir = fs.mkdtempSync(path.join(tmpDir, 'registry-'));
+    const caFile = path.join(tmpDir, 'internal-ca.pem');
+    fs.writeFileSync(caFile, '-----BEGIN CERTIFICATE-----\n');
+    const config = buildkitd.getRegistryConfig(
+      {
+        mirrors: ['https://mirror.internal:5000/', 'mirror.gcr.io', 'ghcr.io=ghcr-mirror.internal'],
+        http: ['registry.internal:5000'],
+        insecure: ['registry.internal:5000'],
+        ca: [`registry.internal:5000=${caFile}`]
+      },
+      caDir
+    );
+    const caCopy = path.join(caDir, 'registry.internal_5000', 'internal-ca.pem');
+    expect(config).toEqual({
+      registry: {
+        'docker.io': {mirrors: ['mirror.internal:5000', 'mirror.gcr.io']},
+        'ghcr.io': {mirrors: ['ghcr-mirror.internal']},
+        'registry.internal:5000': {http: true, insecure: true, ca: [caCopy]}
+      }
+    });
+    expect(fs.readFileSync(caCopy, 'utf8')).toEqual('-----BEGIN CERTIFICATE-----\n');
+    expect(TOML.stringify(config)).toContain('[registry."registry.internal:5000"]');
+  });
+
+  test('empty', async () => {
+    expect(buildkitd.getRegistryConfig({mirrors: [], http: [], insecure: [], ca: []}, tmpDir)).toEqual({});
+  });
+
+  // prettier-ignore
+  test.each([
+    [['/certs/ca.pem'], 'Invalid registry CA "/certs/ca.pem", expected <host>=<file>'],
+    [['registry.internal=/certs/notfound.pem'], 'Registry CA file /certs/notfound.pem not found']
+  ])('given %p CA, throws %p', async (ca: string[], expected: string) => {
+    expect(() => buildkitd.getRegistryConfig({mirrors: [], http: [], insecure: [], ca: ca}, tmpDir)).toThrow(expected);
+  });
+});
+
+describe('writeConfig', () => {
+  test('writes private config file', async () => {
+    process.env.BUILDX_CONFIG = path.join(tmpDir, 'buildx');
+    const configFile = buildkitd.writeConfig({debug: true, worker: {oci: {gckeepstorage: 1000}}});
+    expect(path.dirname(path.dirname(configFile))).toEqual(path.join(tmpDir, 'buildx', 'certs'));
+    expect(fs.readFileSync(configFile, 'utf8')).toEqual('debug = true\n\n[worker.oci]\ngckeepstorage = 1_000\n');
+    expect(fs.statSync(configFile).mode & 0o777).toEqual(0o600);
+    expect(fs.statSync(path.dirname(configFile)).mode & 0o777).toEqual(0o700);
+  });
+});
+
+describe('parseBytes', () => {
+  // prettier-ignore
+  test.each([
+    ['1073741824', undefined, 1073741824],
+    ['2GB', undefined, 2000000000],
+    ['512MiB', undefined, 536870912],
+    ['1.5 GiB', undefined, 1610612736],
+    ['10%', 1000, 100]
+  ])('given %p and total %p, returns %p', async (value: string, total: number | undefined, expected: number) => {
+    expect(buildkitd.parseBytes(value, total)).toEqual(expected);
+  });
+
+  test('invalid', async () => {
+    expect(() => buildkitd.parseBytes('lots')).toThrow('Invalid size "lots"');
+    expect(() => buildkitd.parseBytes('10%')).toThrow('Percentage not allowed for size "10%"');
+  });
+});
+
+describe('formatBytes', () => {
+  // prettier-ignore
+  test.each([
+    [0, '0B'],
+    [999, '999B'],
+    [1500, '1.5kB'],
+    [2000000000, '2GB'],
+    [1234567890, '1.23GB']
+  ])('given %p, returns %p', async (bytes: number, expected: string) => {
+    expect(buildkitd.formatBytes(bytes)).toEqual(expected);
+  });
+});
+
+describe('parseDiskUsage', () => {
+  test('sums records by type', async () => {
+    const stdout = `ID:		yd5vr7rtpj6ua1qy8rbqd8dkg
+Created at:	2024-05-30 10:24:12.339 +0000 UTC
+Mutable:	false
+Reclaimable:	true
+Shared:		false
+Size:		1.5MB
+Description:	[stage-0 2/2] RUN apk add git
+Usage count:	1
+Last used:	2 minutes ago
+Type:		regular
+
+ID:		rzrmr3xm6hmlg0uz1tcb1d8hu
+Created at:	2024-05-30 10:24:10.128 +0000 UTC
+Mutable:	true
+Reclaimable:	false
+Shared:		false
+Size:		512kB
+Description:	mount / from exec /bin/sh -c go build
+Usage count:	2
+Last used:	2 minutes ago
+Type:		exec.cachemount
+
+ID:		w2b8n9a1vxk4d0ls3p3sd8zyx
+Parent:		yd5vr7rtpj6ua1qy8rbqd8dkg
+Created at:	2024-05-30 10:24:14.991 +0000 UTC
+Mutable:	false
+Reclaimable:	true
+Shared:		false
+Size:		2.5MB
+Usage count:	1
+Last used:	2 minutes ago
+Type:		regular
+
+Shared:		0B
+Private:	4.512MB
+Reclaimable:	4MB
+Total:		4.512MB
+`;
+    expect(buildkitd.parseDiskUsage(stdout)).toEqual({
+      regular: {count: 2, size: 4000000, reclaimable: 4000000},
+      'exec.cachemount': {count: 1, size: 512000, reclaimable: 0}
+    });
+  });
+});
+
+describe('parseDuration', () => {
+  // prettier-ignore
+  test.each([
+    ['172800', 172800],
+    ['48h', 172800],
+    ['2d', 172800],
+    ['90m', 5400]
+  ])('given %p, returns %p', async (value: string, expected: number) => {
+    expect(buildkitd.parseDuration(value)).toEqual(expected);
+  });
+
+  test('invalid', async () => {
+    expect(() => buildkitd.parseDuration('2w')).toThrow('Invalid duration "2w"');
+  });
+});
+
+describe('getCacheUsage', () => {
+  const gb = 1000 ** 3;
+  const space = {capacity: 100 * gb, free: 60 * gb};
+
+  test('missing root', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput');
+    expect(await buildkitd.getCacheUsage(path.join(tmpDir, 'notfound'), space)).toEqual(0);
+    expect(execSpy).not.toHaveBeenCalled();
+  });
+
+  test('mounted root', async () => {
+    const statSync = fs.statSync;
+    jest.spyOn(fs, 'statSync').mockImplementation(((file: string) => ({...statSync(file), dev: file == tmpDir ? 42 : 1})) as typeof fs.statSync);
+    const execSpy = jest.spyOn(Exec, 'getExecOutput');
+    try {
+      expect(await buildkitd.getCacheUsage(tmpDir, space)).toEqual(40 * gb);
+      expect(execSpy).not.toHaveBeenCalled();
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('root sharing its filesystem', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0, `1234567\t${tmpDir}\n`));
+    expect(await buildkitd.getCacheUsage(tmpDir, space)).toEqual(1234567);
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['du', '-s', '-x', '-B1', tmpDir], expect.anything());
+  });
+});
+
+describe('getGCConfig', () => {
+  const gb = 1000 ** 3;
+
+  test('keeps percentage of capacity', async () => {
+    const config = buildkitd.getGCConfig({capacity: 100 * gb, free: 100 * gb}, 0, {keepPercentage: '80', reservedSpace: '2GB', keepDuration: '48h', filters: []});
+    expect(config).toEqual({
+      worker: {
+        oci: {
+          enabled: true,
+          gc: true,
+          gckeepstorage: 80 * gb,
+          gcpolicy: [
+            {keepBytes: 80 * gb, keepDuration: 172800},
+            {all: true, keepBytes: 80 * gb}
+          ]
+        }
+      }
+    });
+  });
+
+  test('leaves reserved space free', async () => {
+    const config = buildkitd.getGCConfig({capacity: 10 * gb, free: 10 * gb}, 0, {keepPercentage: '95', reservedSpace: '2GB', keepDuration: '7d', filters: ['type==exec.cachemount', 'type==source.local']});
+    expect(config).toEqual({
+      worker: {
+        oci: {
+          enabled: true,
+          gc: true,
+          gckeepstorage: 8 * gb,
+          gcpolicy: [
+            {keepBytes: 8 * gb, keepDuration: 604800, filters: ['type==exec.cachemount', 'type==source.local']},
+            {all: true, keepBytes: 8 * gb}
+          ]
+        }
+      }
+    });
+  });
+
+  test('caps to free space when the filesystem is shared', async () => {
+    // 30GB used by the OS and toolcache, 10GB by the cache.
+    const config = buildkitd.getGCConfig({capacity: 100 * gb, free: 60 * gb}, 10 * gb, {keepPercentage: '80', reservedSpace: '2GB', keepDuration: '48h', filters: []});
+    expect(config).toEqual({
+      worker: {
+        oci: {
+          enabled: true,
+          gc: true,
+          gckeepstorage: 68 * gb,
+          gcpolicy: [
+            {keepBytes: 68 * gb, keepDuration: 172800},
+            {all: true, keepBytes: 68 * gb}
+          ]
+        }
+      }
+    });
+  });
+
+  test('invalid percentage', async () => {
+    expect(() => buildkitd.getGCConfig({capacity: 10 * gb, free: 10 * gb}, 0, {keepPercentage: '120', reservedSpace: '0', keepDuration: '48h', filters: []})).toThrow('Invalid GC keep percentage "120"');
+  });
+});
+
+describe('buildctlArgs', () => {
+  // prettier-ignore
+  test.each([
+    ['unix:///run/buildkit/buildkitd.sock', [], ['--addr', 'unix:///run/buildkit/buildkitd.sock']],
+    [
+      'tcp://127.0.0.1:1234',
+      ['cacert=/certs/ca.pem', 'cert=/certs/client-cert.pem', 'key=/certs/client-key.pem', 'servername=buildkitd'],
+      ['--addr', 'tcp://127.0.0.1:1234', '--tlscacert', '/certs/ca.pem', '--tlscert', '/certs/client-cert.pem', '--tlskey', '/certs/client-key.pem']
+    ]
+  ])('given %p and %p, returns %p', async (endpoint: string, driverOpts: string[], expected: string[]) => {
+    expect(buildkitd.buildctlArgs(endpoint, driverOpts)).toEqual(expected);
+  });
+});
+
+describe('pruneArgs', () => {
+  // prettier-ignore
+  test.each([
+    [{}, ['prune', '--verbose']],
+    [{keepStorage: '10GB', keepDuration: '24h'}, ['prune', '--verbose', '--keep-storage', '10000', '--keep-duration', '86400s']],
+    [{filters: ['type==regular', 'type==source.local']}, ['prune', '--verbose', '--filter', 'type==regular', '--filter', 'type==source.local']]
+  ])('given %p, returns %p', async (opts: buildkitd.PruneOpts, expected: string[]) => {
+    expect(buildkitd.pruneArgs(opts)).toEqual(expected);
+  });
+
+  test('invalid keep storage', async () => {
+    expect(() => buildkitd.pruneArgs({keepStorage: 'lots'})).toThrow('Invalid size "lots"');
+  });
+});
+
+describe('prune', () => {
+  test('returns reclaimed bytes', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(
+      execOutput(
+        0,
+        `ID:		yd5vr7rtpj6ua1qy8rbqd8dkg
+Reclaimable:	true
+Size:		1.5MB
+Type:		regular
+
+ID:		w2b8n9a1vxk4d0ls3p3sd8zyx
+Reclaimable:	true
+Size:		500kB
+Type:		source.local
+
+Total:	2MB
+`
+      )
+    );
+    expect(await buildkitd.prune('unix:///run/buildkit/buildkitd.sock', [], {keepDuration: '1h'})).toEqual(2000000);
+    expect(execSpy).toHaveBeenCalledWith('buildctl', ['--addr', 'unix:///run/buildkit/buildkitd.sock', 'prune', '--verbose', '--keep-duration', '3600s'], expect.anything());
+  });
+});
+
+describe('getListener', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('unix', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0));
+    const listener = await buildkitd.getListener('unix', 1234, path.join(tmpDir, 'tls'));
+    expect(listener.addr).toEqual('unix:///run/buildkit/buildkitd.sock');
+    expect(listener.endpoint).toEqual('unix:///run/buildkit/buildkitd.sock');
+    expect(listener.flags[0]).toEqual('--group');
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['chmod', '0755', '/run/buildkit'], expect.anything());
+  });
+
+  test('loopback', async () => {
+    expect(await buildkitd.getListener('loopback', 1234, path.join(tmpDir, 'tls'))).toEqual({
+      addr: 'tcp://127.0.0.1:1234',
+      endpoint: 'tcp://127.0.0.1:1234',
+      flags: [],
+      driverOpts: []
+    });
+  });
+
+  test('remote', async () => {
+    const certsDir = path.join(tmpDir, 'tls');
+    const listener = await buildkitd.getListener('remote', 1234, certsDir);
+    expect(listener.addr).toEqual('tcp://0.0.0.0:1234');
+    expect(listener.endpoint).toEqual('tcp://127.0.0.1:1234');
+    expect(listener.flags).toEqual(['--tlscacert', path.join(certsDir, 'ca.pem'), '--tlscert', path.join(certsDir, 'server-cert.pem'), '--tlskey', path.join(certsDir, 'server-key.pem')]);
+    expect(listener.driverOpts).toEqual([`cacert=${path.join(certsDir, 'ca.pem')}`, `cert=${path.join(certsDir, 'client-cert.pem')}`, `key=${path.join(certsDir, 'client-key.pem')}`]);
+    for (const file of ['ca.pem', 'server-cert.pem', 'server-key.pem', 'client-cert.pem', 'client-key.pem']) {
+      expect(fs.statSync(path.join(certsDir, file)).mode & 0o777).toEqual(0o600);
+    }
+  });
+
+  test('invalid', async () => {
+    await expect(buildkitd.getListener('public', 1234, path.join(tmpDir, 'tls'))).rejects.toThrow('Invalid buildkitd-listen "public", expected unix, loopback or remote');
+  });
+});
+
+describe('getFlags', () => {
+  // prettier-ignore
+  test.each([
+    [['security.insecure', 'network.host'], '', '--allow-insecure-entitlement security.insecure --allow-insecure-entitlement network.host'],
+    [['network.host'], '--debug', '--allow-insecure-entitlement network.host --debug'],
+    [[], '', ''],
+    [[], '  --debug --oci-worker-snapshotter=native ', '--debug --oci-worker-snapshotter=native']
+  ])('given %p and %p, returns %p', async (entitlements: string[], extraFlags: string, expected: string) => {
+    expect(buildkitd.getFlags(entitlements, extraFlags)).toEqual(expected);
+  });
+});
+
+describe('shutdown', () => {
+  beforeEach(() => {
+    jest.spyOn(Util, 'sleep').mockResolvedValue(undefined);
+  });
+
+  test('waits for buildkitd to exit', async () => {
+    let running = 3;
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string, args?: string[]): Promise<ExecOutput> => {
+      return args && args[1] == '-0' ? execOutput(running-- > 0 ? 0 : 1) : execOutput(0);
+    });
+    await buildkitd.shutdown(4242);
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['kill', '-TERM', '4242'], expect.anything());
+    expect(execSpy).not.toHaveBeenCalledWith('sudo', ['kill', '-KILL', '4242'], expect.anything());
+  });
+
+  test('escalates to SIGKILL after timeout', async () => {
+    let killed = false;
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string, args?: string[]): Promise<ExecOutput> => {
+      if (args && args[1] == '-KILL') {
+        killed = true;
+      }
+      return args && args[1] == '-0' ? execOutput(killed ? 1 : 0) : execOutput(0);
+    });
+    await buildkitd.shutdown(4242, {timeout: 0});
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['kill', '-KILL', '4242'], expect.anything());
+  });
+
+  test('fails if buildkitd survives SIGKILL', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0));
+    await expect(buildkitd.shutdown(4242, {timeout: 0, killTimeout: 0})).rejects.toThrow('buildkitd (pid 4242) is still running after SIGKILL');
+  });
+
+  test('skips a stopped buildkitd', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(1));
+    await buildkitd.shutdown(4242);
+    expect(execSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('daemon', () => {
+  const daemon = {
+    pid: 4242,
+    endpoint: 'unix:///run/buildkit/buildkitd.sock',
+    driverOpts: [],
+    flags: '--allow-insecure-entitlement network.host',
+    configFile: '/tmp/buildkitd-123/buildkitd.toml',
+    stickyDisk: 'mounted',
+    stickyDiskDevice: '/dev/vdb',
+    stickyDiskMountPoint: '/var/lib/buildkit'
+  };
+  let daemonFile: string;
+
+  beforeEach(() => {
+    daemonFile = path.join(fs.mkdtempSync(path.join(tmpDir, 'daemon-')), 'buildkitd.json');
+  });
+
+  test('daemonFile', async () => {
+    const runnerTemp = process.env.RUNNER_TEMP;
+    process.env.RUNNER_TEMP = '/home/runner/work/_temp';
+    try {
+      expect(buildkitd.daemonFile()).toEqual('/home/runner/work/_temp/setup-buildx-buildkitd.json');
+    } finally {
+      process.env.RUNNER_TEMP = runnerTemp;
+    }
+  });
+
+  test('nothing to reuse', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput');
+    await expect(buildkitd.acquireDaemon(daemonFile)).resolves.toBeUndefined();
+    expect(execSpy).not.toHaveBeenCalled();
+  });
+
+  test('reference counting', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0));
+    buildkitd.registerDaemon(daemonFile, daemon);
+    await expect(buildkitd.acquireDaemon(daemonFile)).resolves.toEqual({...daemon, refs: 2});
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['kill', '-0', '4242'], expect.anything());
+    await expect(buildkitd.acquireDaemon(daemonFile)).resolves.toEqual({...daemon, refs: 3});
+    expect(buildkitd.releaseDaemon(daemonFile, 4242)).toEqual(2);
+    expect(buildkitd.readDaemon(daemonFile)).toEqual({...daemon, refs: 2});
+    expect(buildkitd.releaseDaemon(daemonFile, 4242)).toEqual(1);
+    expect(buildkitd.releaseDaemon(daemonFile, 4242)).toEqual(0);
+    expect(fs.existsSync(daemonFile)).toBe(false);
+  });
+
+  test('discards a stopped daemon', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(1));
+    buildkitd.registerDaemon(daemonFile, daemon);
+    await expect(buildkitd.acquireDaemon(daemonFile)).resolves.toBeUndefined();
+    expect(fs.existsSync(daemonFile)).toBe(false);
+  });
+
+  test('release of a replaced daemon', async () => {
+    buildkitd.registerDaemon(daemonFile, {...daemon, pid: 5353});
+    expect(buildkitd.releaseDaemon(daemonFile, 4242)).toEqual(0);
+    expect(buildkitd.readDaemon(daemonFile)).toEqual({...daemon, pid: 5353, refs: 1});
+  });
+});
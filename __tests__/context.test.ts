@@ -226,6 +226,23 @@ describe('getCreateArgs', () => {
         '--buildkitd-flags', '--allow-insecure-entitlement security.insecure --allow-insecure-entitlement network.host',
         '--config', tmpName,
       ]
+    ],
+    [
+      10,
+      'v0.10.3',
+      new Map<string, string>([
+        ['install', 'false'],
+        ['use', 'false'],
+        ['buildkitd-flags', '--debug'],
+        ['cache-binary', 'true'],
+        ['cleanup', 'true'],
+      ]),
+      [
+        'create',
+        '--name', 'builder-9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d',
+        '--driver', 'docker-container',
+        '--buildkitd-flags', '--debug'
+      ]
     ]
   ])(
     '[%d] given buildx %s and %p as inputs, returns %p',
@@ -244,6 +261,56 @@ describe('getCreateArgs', () => {
   );
 });
 
+describe('isManaged', () => {
+  // prettier-ignore
+  test.each([
+    ['managed', false, true],
+    ['driver', true, false],
+    ['auto', true, true],
+    ['auto', false, false]
+  ])('given %p mode and sticky disks %p, returns %p', async (mode: string, stickyDisks: boolean, expected: boolean) => {
+    expect(context.isManaged(mode, stickyDisks)).toEqual(expected);
+  });
+
+  test('invalid mode', async () => {
+    expect(() => context.isManaged('local', false)).toThrow('Invalid mode "local", expected managed, driver, auto');
+  });
+});
+
+describe('getAppendNodes', () => {
+  test('parses nodes', async () => {
+    const append = `- name: arm64
+  endpoint: tcp://arm64-builder:1234
+  platforms: linux/arm64
+- name: riscv64
+  endpoint: tcp://riscv64-builder:1234
+  driver-opts:
+    - servername=riscv64-builder
+`;
+    expect(context.getAppendNodes(append, 'remote')).toEqual([
+      {name: 'arm64', endpoint: 'tcp://arm64-builder:1234', platforms: 'linux/arm64'},
+      {name: 'riscv64', endpoint: 'tcp://riscv64-builder:1234', 'driver-opts': ['servername=riscv64-builder']}
+    ]);
+  });
+
+  test('empty', async () => {
+    expect(context.getAppendNodes('', 'remote')).toEqual([]);
+  });
+
+  // prettier-ignore
+  test.each([
+    ['name: arm64', 'remote', 'Invalid append input: expected a list of nodes'],
+    ['- name: arm64\n  platforms: linux/arm64', 'remote', 'Invalid append input: node arm64 has no endpoint'],
+    ['- name: [arm64', 'remote', 'Invalid append input: ']
+  ])('given %p with %p driver, throws %p', async (append: string, driver: string, expected: string) => {
+    expect(() => context.getAppendNodes(append, driver)).toThrow(expected);
+  });
+
+  test('node without endpoint on docker-container driver', async () => {
+    expect(context.getAppendNodes('- name: node2', 'docker-container')).toEqual([{name: 'node2'}]);
+  });
+});
+
 describe('getAppendArgs', () => {
   beforeEach(() => {
     process.env = Object.keys(process.env).reduce((object, key) => {
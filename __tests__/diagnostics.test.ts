@@ -0,0 +1,88 @@
+import {afterEach, beforeEach, describe, expect, jest, test} from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {ExecOutput} from '@actions/exec';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+import {GitHub} from '@docker/actions-toolkit/lib/github';
+import {UploadArtifactOpts, UploadArtifactResponse} from '@docker/actions-toolkit/lib/types/github';
+
+import * as diagnostics from '../src/diagnostics';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+const tmpDir = fs.mkdtempSync(path.join(process.env.TEMP || os.tmpdir(), 'diagnostics-jest-'));
+
+describe('shouldCollect', () => {
+  // prettier-ignore
+  test.each([
+    ['auto', true, true],
+    ['auto', false, false],
+    ['always', false, true],
+    ['never', true, false]
+  ])('given %p and failed %p, returns %p', async (mode: string, failed: boolean, expected: boolean) => {
+    expect(diagnostics.shouldCollect(mode, failed)).toEqual(expected);
+  });
+
+  test('invalid mode', async () => {
+    expect(() => diagnostics.shouldCollect('onfailure', true)).toThrow('Invalid diagnostics "onfailure", expected auto, always, never');
+  });
+});
+
+describe('collect', () => {
+  const cwd = process.cwd();
+  beforeEach(() => {
+    process.chdir(tmpDir);
+    fs.writeFileSync('buildkitd.log', 'level=info msg="running server on /run/buildkit/buildkitd.sock"\n');
+  });
+  afterEach(() => {
+    process.chdir(cwd);
+  });
+
+  test('all diagnostics', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string): Promise<ExecOutput> => {
+      return cmd == 'buildctl' ? {exitCode: 1, stdout: '', stderr: 'connection refused'} : {exitCode: 0, stdout: 'Name: builder\n', stderr: ''};
+    });
+    const res = await diagnostics.collect({
+      builderName: 'builder',
+      standalone: true,
+      configFile: path.join(fixturesDir, 'buildkitd.toml'),
+      endpoint: 'unix:///run/buildkit/buildkitd.sock'
+    });
+    expect(res.map(d => d.name)).toEqual(['buildkitd.log', 'buildkitd.toml', 'buildx-inspect.txt', 'buildctl-debug-workers.txt']);
+    expect(res[0].content).toContain('running server');
+    expect(res[1].content).toEqual(fs.readFileSync(path.join(fixturesDir, 'buildkitd.toml'), 'utf8'));
+    expect(res[2].content).toEqual('$ buildx inspect builder\nName: builder\n');
+    expect(res[3].content).toEqual('$ buildctl --addr unix:///run/buildkit/buildkitd.sock debug workers --verbose\nconnection refused\nexited with code 1\n');
+    expect(execSpy).toHaveBeenCalledTimes(2);
+  });
+
+  test('only log', async () => {
+    fs.rmSync('buildkitd.log');
+    const res = await diagnostics.collect({});
+    expect(res).toEqual([{name: 'buildkitd.log', content: expect.stringContaining('cannot read buildkitd.log')}]);
+  });
+});
+
+describe('upload', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('uploads tarball', async () => {
+    let files = '';
+    const uploadSpy = jest.spyOn(GitHub, 'uploadArtifact').mockImplementation(async (opts: UploadArtifactOpts): Promise<UploadArtifactResponse> => {
+      files = (await Exec.getExecOutput('tar', ['-tzf', opts.filename], {silent: true})).stdout;
+      return {id: 1, filename: path.basename(opts.filename), size: 1, url: 'https://github.com/docker/setup-buildx-action/actions/runs/1/artifacts/1'};
+    });
+    const url = await diagnostics.upload(
+      [
+        {name: 'buildkitd.log', content: 'log'},
+        {name: 'buildkitd.toml', content: 'debug = true'}
+      ],
+      'buildkitd-diagnostics-builder'
+    );
+    expect(url).toEqual('https://github.com/docker/setup-buildx-action/actions/runs/1/artifacts/1');
+    expect(uploadSpy).toHaveBeenCalledWith(expect.objectContaining({mimeType: 'application/gzip'}));
+    expect(files.split('\n').sort()).toEqual(['', 'buildkitd-diagnostics-builder/', 'buildkitd-diagnostics-builder/buildkitd.log', 'buildkitd-diagnostics-builder/buildkitd.toml']);
+  });
+});
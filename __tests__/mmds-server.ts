@@ -0,0 +1,63 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+
+// Fake Firecracker MMDS (v2) serving metadata keys behind a session token.
+export class MMDSServer {
+  public readonly token = 'fake-mmds-token';
+  public tokenRequests = 0;
+  public requests: Record<string, number> = {};
+  // Delay in milliseconds before answering metadata requests.
+  public delay = 0;
+
+  private readonly server: http.Server;
+
+  // Values are served in order for successive requests of a key, the last
+  // one being repeated. Keys without values are not found and three digits
+  // values are answered as HTTP errors.
+  constructor(private readonly metadata: Record<string, string[]>) {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  public async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  public async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.method == 'PUT' && req.url == '/latest/api/token') {
+      this.tokenRequests++;
+      if (!req.headers['x-metadata-token-ttl-seconds']) {
+        return this.reply(res, 400, 'Token time to live value not found.');
+      }
+      return this.reply(res, 200, this.token);
+    }
+    if (req.method != 'GET') {
+      return this.reply(res, 405, 'Method not allowed');
+    }
+    if (req.headers['x-metadata-token'] != this.token) {
+      return this.reply(res, 401, 'API token is invalid.');
+    }
+    const key = (req.url || '/').substring(1);
+    const count = (this.requests[key] = (this.requests[key] || 0) + 1);
+    const values = this.metadata[key] || [];
+    const value = values[Math.min(count, values.length) - 1];
+    if (value === undefined || value == 'Resource not found') {
+      return this.reply(res, 404, `{"fault_message":"Resource not found: /${key}."}`);
+    }
+    if (/^\d{3}$/.test(value)) {
+      return this.reply(res, parseInt(value, 10), 'Error');
+    }
+    return this.reply(res, 200, value);
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: string) {
+    setTimeout(() => {
+      res.writeHead(status, {'Content-Type': 'text/plain'});
+      res.end(body);
+    }, this.delay);
+  }
+}
@@ -0,0 +1,225 @@
+import {afterEach, beforeEach, describe, expect, test} from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import * as platform from '../src/platform';
+import {MMDSServer} from './mmds-server';
+
+describe('getPlatform', () => {
+  const env = process.env;
+  beforeEach(() => {
+    process.env = Object.assign({}, env);
+    delete process.env[platform.platformEnv];
+    delete process.env.VSOCK_PORT;
+  });
+  afterEach(() => {
+    process.env = env;
+  });
+
+  // prettier-ignore
+  test.each([
+    ['', {}, 'none'],
+    ['auto', {VSOCK_PORT: '10000'}, 'blacksmith'],
+    ['auto', {BUILDX_RUNNER_PLATFORM: 'none', VSOCK_PORT: '10000'}, 'none'],
+    ['auto', {BUILDX_RUNNER_PLATFORM: 'blacksmith'}, 'blacksmith'],
+    ['none', {BUILDX_RUNNER_PLATFORM: 'blacksmith'}, 'none'],
+    ['blacksmith', {}, 'blacksmith']
+  ])('given %p input with %p env, returns %p', async (name: string, vars: Record<string, string>, expected: string) => {
+    Object.assign(process.env, vars);
+    expect(platform.getPlatform(name).name).toEqual(expected);
+  });
+
+  test('invalid platform', async () => {
+    expect(() => platform.getPlatform('aws')).toThrow('Invalid runner platform "aws", expected auto, blacksmith, none');
+  });
+});
+
+describe('Blacksmith', () => {
+  let server: MMDSServer;
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('gets metadata with session token', async () => {
+    server = new MMDSServer({sticky_disk_loaded: ['true']});
+    const blacksmith = new platform.Blacksmith({mmdsAddr: await server.start()});
+    expect(await blacksmith.getMetadata('sticky_disk_loaded')).toEqual('true');
+    expect(server.tokenRequests).toEqual(1);
+  });
+
+  test('fails on missing resource', async () => {
+    server = new MMDSServer({});
+    const blacksmith = new platform.Blacksmith({mmdsAddr: await server.start()});
+    await expect(blacksmith.getMetadata('sticky_disk_loaded')).rejects.toThrow('Failed to get metadata sticky_disk_loaded with status code 404: {"fault_message":"Resource not found: /sticky_disk_loaded."}');
+  });
+
+  test('fails on server error', async () => {
+    server = new MMDSServer({sticky_disk_loaded: ['503']});
+    const blacksmith = new platform.Blacksmith({mmdsAddr: await server.start()});
+    const err = await blacksmith.getMetadata('sticky_disk_loaded').catch(e => e);
+    expect(err).toBeInstanceOf(platform.MetadataError);
+    expect(err.status).toEqual(503);
+    expect(err.retryable).toEqual(true);
+  });
+
+  test('times out', async () => {
+    server = new MMDSServer({sticky_disk_loaded: ['true']});
+    server.delay = 500;
+    const blacksmith = new platform.Blacksmith({mmdsAddr: await server.start()});
+    await expect(blacksmith.getMetadata('sticky_disk_loaded', 0.1)).rejects.toThrow(platform.MetadataTimeoutError);
+  });
+});
+
+describe('backoff', () => {
+  // prettier-ignore
+  test.each([
+    [0, 1],
+    [1, 2],
+    [3, 8],
+    [5, 10]
+  ])('given attempt %p, returns %p', async (attempt: number, expected: number) => {
+    expect(platform.backoff(attempt, {delay: 1, deadline: 30, jitter: 0})).toEqual(expected);
+  });
+
+  test('jitter', async () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = platform.backoff(2, {delay: 1, deadline: 30, jitter: 0.5});
+      expect(delay).toBeGreaterThanOrEqual(2);
+      expect(delay).toBeLessThanOrEqual(6);
+    }
+  });
+});
+
+describe('retryCommand', () => {
+  const opts = {delay: 0.01, deadline: 2};
+
+  test('retries on retryable errors', async () => {
+    let calls = 0;
+    const res = await platform.retryCommand(async () => {
+      if (++calls < 3) {
+        throw new platform.MetadataError('not found', 404);
+      }
+      return 'true';
+    }, opts);
+    expect(res).toEqual('true');
+    expect(calls).toEqual(3);
+  });
+
+  test('fails fast on non retryable errors', async () => {
+    let calls = 0;
+    await expect(
+      platform.retryCommand(async () => {
+        calls++;
+        throw new platform.MetadataError('bad request', 400);
+      }, opts)
+    ).rejects.toThrow('bad request');
+    expect(calls).toEqual(1);
+  });
+
+  test('gives up at deadline', async () => {
+    await expect(
+      platform.retryCommand(
+        async () => {
+          throw new platform.MetadataError('not found', 404);
+        },
+        {delay: 0.05, deadline: 0.2}
+      )
+    ).rejects.toThrow(platform.MetadataTimeoutError);
+  });
+});
+
+describe('waitStickyDisksLoaded', () => {
+  let server: MMDSServer;
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('waits until loaded', async () => {
+    server = new MMDSServer({sticky_disk_loaded: ['Resource not found', 'Resource not found', 'true']});
+    const blacksmith = new platform.Blacksmith({mmdsAddr: await server.start()});
+    expect(await platform.waitStickyDisksLoaded(blacksmith, {delay: 0.01, deadline: 5})).toEqual('loaded');
+    expect(server.requests['sticky_disk_loaded']).toEqual(3);
+  });
+
+  test('skips waiting when not provisioned', async () => {
+    server = new MMDSServer({sticky_disk_provisioned: ['false']});
+    const blacksmith = new platform.Blacksmith({mmdsAddr: await server.start()});
+    expect(await platform.waitStickyDisksLoaded(blacksmith, {delay: 0.01, deadline: 5})).toEqual('not-provisioned');
+    expect(server.requests['sticky_disk_loaded']).toBeUndefined();
+  });
+
+  test('not loaded', async () => {
+    server = new MMDSServer({sticky_disk_provisioned: ['true'], sticky_disk_loaded: ['false']});
+    const blacksmith = new platform.Blacksmith({mmdsAddr: await server.start()});
+    expect(await platform.waitStickyDisksLoaded(blacksmith, {delay: 0.01, deadline: 5})).toEqual('not-loaded');
+  });
+});
+
+describe('loadStickyDisks', () => {
+  const binDir = fs.mkdtempSync(path.join(process.env.TEMP || os.tmpdir(), 'socat-'));
+
+  // Returns a Blacksmith platform reaching the host agent with a fake socat
+  // running script.
+  function fakeSocat(script: string): platform.Blacksmith {
+    const socat = path.join(binDir, `socat-${Math.random().toString(36).substring(2)}`);
+    fs.writeFileSync(socat, `#!/bin/sh\n${script}\n`, {mode: 0o755});
+    return new platform.Blacksmith({vsockPort: '10000', socat: socat});
+  }
+
+  test('acknowledged', async () => {
+    const blacksmith = fakeSocat('read req; [ "$req" = "load" ] && echo "ok loading 1 disk"');
+    expect(await blacksmith.loadStickyDisks()).toEqual('ok loading 1 disk');
+  });
+
+  test('refused by host', async () => {
+    const blacksmith = fakeSocat('echo "error: no sticky disk for this job"');
+    const err = await blacksmith.loadStickyDisks().catch(e => e);
+    expect(err).toBeInstanceOf(platform.LoadError);
+    expect(err.reason).toEqual('refused');
+  });
+
+  test('connection refused', async () => {
+    const blacksmith = fakeSocat('echo "E connect(5, AF=40 cid:2 port:10000, 16): Connection refused" >&2; exit 1');
+    await expect(blacksmith.loadStickyDisks()).rejects.toMatchObject({reason: 'refused'});
+  });
+
+  test('socat missing', async () => {
+    const blacksmith = new platform.Blacksmith({vsockPort: '10000', socat: path.join(binDir, 'missing')});
+    await expect(blacksmith.loadStickyDisks()).rejects.toMatchObject({reason: 'unavailable'});
+  });
+
+  test('times out', async () => {
+    const blacksmith = fakeSocat('exec sleep 2');
+    await expect(blacksmith.loadStickyDisks(0.2)).rejects.toMatchObject({reason: 'timeout'});
+  });
+});
+
+describe('parseLoadResponse', () => {
+  // prettier-ignore
+  test.each([
+    ['ok\n', 'ok'],
+    ['', ''],
+    ['loading sticky disks', 'loading sticky disks']
+  ])('given %p, returns %p', async (stdout: string, expected: string) => {
+    expect(platform.parseLoadResponse(stdout)).toEqual(expected);
+  });
+
+  // prettier-ignore
+  test.each([
+    ['error: quota exceeded'],
+    ['NACK'],
+    ['denied']
+  ])('given %p, throws', async (stdout: string) => {
+    expect(() => platform.parseLoadResponse(stdout)).toThrow(platform.LoadError);
+  });
+});
+
+describe('Noop', () => {
+  test('has no metadata service', async () => {
+    const noop = new platform.Noop();
+    expect(noop.stickyDisks).toEqual(false);
+    await expect(noop.loadStickyDisks()).rejects.toThrow(platform.LoadError);
+    await expect(noop.getMetadata('sticky_disk_loaded')).rejects.toThrow('Cannot get metadata sticky_disk_loaded, no metadata service on this runner');
+  });
+});
@@ -0,0 +1,240 @@
+import {beforeEach, describe, expect, jest, test} from '@jest/globals';
+import {ExecOutput} from '@actions/exec';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+import {Util} from '@docker/actions-toolkit/lib/util';
+
+import * as stickydisk from '../src/stickydisk';
+
+function execOutput(exitCode: number, stdout = '', stderr = ''): ExecOutput {
+  return {exitCode: exitCode, stdout: stdout, stderr: stderr};
+}
+
+describe('resolveDevice', () => {
+  const lsblk = JSON.stringify({
+    blockdevices: [
+      {name: 'vda', path: '/dev/vda', label: null, serial: null, children: [{name: 'vda1', path: '/dev/vda1', label: 'rootfs', serial: null}]},
+      {name: 'nvme1n1', path: '/dev/nvme1n1', label: 'buildkit', serial: 'sticky-01'}
+    ]
+  });
+
+  // prettier-ignore
+  test.each([
+    ['/dev/nvme1n1', '/dev/nvme1n1'],
+    ['/dev/vda1', '/dev/vda1'],
+    ['LABEL=buildkit', '/dev/nvme1n1'],
+    ['label=rootfs', '/dev/vda1'],
+    ['SERIAL=sticky-01', '/dev/nvme1n1'],
+    ['/dev/vdb', ''],
+    ['LABEL=unknown', '']
+  ])('given %p, returns %p', async (spec: string, expected: string) => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0, lsblk));
+    expect(await stickydisk.resolveDevice(spec)).toEqual(expected);
+  });
+
+  test('fails on invalid spec', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0, lsblk));
+    await expect(stickydisk.resolveDevice('UUID=1234')).rejects.toThrow('Invalid sticky disk device "UUID=1234", expected a path, LABEL=<label> or SERIAL=<serial>');
+  });
+});
+
+describe('unmount', () => {
+  beforeEach(() => {
+    jest.spyOn(Util, 'sleep').mockResolvedValue(undefined);
+  });
+
+  test('retries while busy', async () => {
+    const execSpy = jest
+      .spyOn(Exec, 'getExecOutput')
+      .mockResolvedValueOnce(execOutput(32, '', 'umount: /var/lib/buildkit: target is busy.'))
+      .mockResolvedValueOnce(execOutput(0));
+    await stickydisk.unmount('/var/lib/buildkit');
+    expect(execSpy).toHaveBeenCalledTimes(2);
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['umount', '/var/lib/buildkit'], expect.anything());
+  });
+
+  test('fails after retries', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(32, '', 'umount: /var/lib/buildkit: target is busy.'));
+    await expect(stickydisk.unmount('/var/lib/buildkit', 3)).rejects.toThrow('Failed to unmount /var/lib/buildkit after 3 attempts: umount: /var/lib/buildkit: target is busy.');
+    expect(execSpy).toHaveBeenCalledTimes(3);
+  });
+});
+
+function boltHeader(pageSize: number, tornFirstMeta = false): Buffer {
+  const header = Buffer.alloc(pageSize * 2);
+  for (const offset of [0, pageSize]) {
+    if (offset == 0 && tornFirstMeta) {
+      continue;
+    }
+    header.writeUInt32LE(0xed0cdaed, offset + 16);
+    header.writeUInt32LE(2, offset + 20);
+    header.writeUInt32LE(pageSize, offset + 24);
+  }
+  return header;
+}
+
+function hexDump(buf: Buffer): string {
+  return buf.toString('hex').replace(/(..)/g, ' $1');
+}
+
+describe('isValidBoltHeader', () => {
+  // prettier-ignore
+  test.each([
+    ['valid', boltHeader(4096), true],
+    ['torn first meta', boltHeader(4096, true), true],
+    ['zeroed', Buffer.alloc(8192), false],
+    ['empty', Buffer.alloc(0), false]
+  ])('%s', async (name: string, header: Buffer, expected: boolean) => {
+    expect(stickydisk.isValidBoltHeader(header)).toEqual(expected);
+  });
+});
+
+describe('initialize', () => {
+  test('formats raw disk', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string, args?: string[]): Promise<ExecOutput> => {
+      return args?.[0] == 'blkid' ? execOutput(2) : execOutput(0);
+    });
+    expect(await stickydisk.initialize('/dev/vdb', 'xfs', 'buildkit')).toEqual(true);
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['mkfs.xfs', '-f', '-L', 'buildkit', '/dev/vdb'], expect.anything());
+  });
+
+  // prettier-ignore
+  test.each([
+    [4, 'blkid: error: /dev/vdb: Device or resource busy', 'Cannot probe /dev/vdb: blkid: error: /dev/vdb: Device or resource busy'],
+    [1, 'sudo: a password is required', 'Cannot probe /dev/vdb: sudo: a password is required']
+  ])('does not format when blkid exits with %p', async (code: number, stderr: string, expected: string) => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(code, '', stderr));
+    await expect(stickydisk.initialize('/dev/vdb', 'ext4')).rejects.toThrow(expected);
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['blkid', '-p', '-o', 'value', '-s', 'TYPE', '/dev/vdb'], expect.anything());
+    expect(execSpy).not.toHaveBeenCalledWith('sudo', expect.arrayContaining(['mkfs.ext4']), expect.anything());
+  });
+
+  test('keeps existing filesystem', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(0, 'ext4\n'));
+    expect(await stickydisk.initialize('/dev/vdb', 'ext4')).toEqual(false);
+    expect(execSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('invalid filesystem type', async () => {
+    await expect(stickydisk.initialize('/dev/vdb', 'btrfs')).rejects.toThrow('Invalid sticky disk filesystem type "btrfs", expected ext4, xfs');
+  });
+
+  test('label too long', async () => {
+    await expect(stickydisk.initialize('/dev/vdb', 'xfs', 'buildkit-cache')).rejects.toThrow('Sticky disk label "buildkit-cache" is too long for xfs');
+  });
+});
+
+describe('checkFilesystem', () => {
+  // prettier-ignore
+  test.each([
+    ['ext4', 0, true],
+    ['ext4', 1, true],
+    ['ext4', 4, false],
+    ['xfs', 0, true],
+    ['xfs', 1, false]
+  ])('%p check exiting with %p is clean: %p', async (fsType: string, code: number, expected: boolean) => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(code));
+    expect(await stickydisk.checkFilesystem('/dev/vdb', fsType)).toEqual(expected);
+  });
+
+  test('xfs_repair failure', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockResolvedValue(execOutput(2, '', "fatal error -- couldn't initialize XFS library"));
+    await expect(stickydisk.checkFilesystem('/dev/vdb', 'xfs')).rejects.toThrow("Cannot check filesystem on /dev/vdb: fatal error -- couldn't initialize XFS library");
+  });
+});
+
+describe('mount', () => {
+  function mockExec(fsck: number, dbs: Record<string, Buffer>, label = '', fsckStderr = '') {
+    return jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string, args?: string[]): Promise<ExecOutput> => {
+      switch (args?.[0]) {
+        case 'blkid':
+          return args.includes('LABEL') ? execOutput(label ? 0 : 2, `${label}\n`) : execOutput(0, 'ext4\n');
+        case 'e2fsck':
+          return args.includes('-n') ? execOutput(fsck, '', fsckStderr) : execOutput(1);
+        case 'find':
+          return execOutput(0, args.includes('-delete') ? '' : Object.keys(dbs).join('\n'));
+        case 'od':
+          return execOutput(0, hexDump(dbs[args[args.length - 1]]));
+        default:
+          return execOutput(0);
+      }
+    });
+  }
+
+  test('clean', async () => {
+    mockExec(0, {'/var/lib/buildkit/cache.db': boltHeader(4096)});
+    expect(await stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'repair')).toEqual('clean');
+  });
+
+  test('repairs filesystem', async () => {
+    const execSpy = mockExec(4, {'/var/lib/buildkit/cache.db': boltHeader(4096)});
+    expect(await stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'repair')).toEqual('repaired');
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['e2fsck', '-f', '-y', '/dev/vdb'], expect.anything());
+  });
+
+  test('reformats filesystem', async () => {
+    const execSpy = mockExec(4, {});
+    expect(await stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'wipe')).toEqual('wiped');
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['mkfs.ext4', '-F', '/dev/vdb'], expect.anything());
+  });
+
+  test('reformats filesystem keeping its label', async () => {
+    const execSpy = mockExec(4, {}, 'buildkit-cache');
+    expect(await stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'wipe', 'buildkit')).toEqual('wiped');
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['mkfs.ext4', '-F', '-L', 'buildkit-cache', '/dev/vdb'], expect.anything());
+  });
+
+  test('reformats filesystem with label', async () => {
+    const execSpy = mockExec(4, {});
+    expect(await stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'wipe', 'buildkit')).toEqual('wiped');
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['mkfs.ext4', '-F', '-L', 'buildkit', '/dev/vdb'], expect.anything());
+  });
+
+  // prettier-ignore
+  test.each([
+    [8, 'e2fsck: Device or resource busy while trying to open /dev/vdb', 'Cannot check filesystem on /dev/vdb: e2fsck: Device or resource busy while trying to open /dev/vdb'],
+    [1, 'sudo: e2fsck: command not found', 'Cannot check filesystem on /dev/vdb: sudo: e2fsck: command not found']
+  ])('does not wipe when check exits with %p', async (code: number, stderr: string, expected: string) => {
+    const execSpy = mockExec(code, {}, '', stderr);
+    await expect(stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'wipe')).rejects.toThrow(expected);
+    expect(execSpy).not.toHaveBeenCalledWith('sudo', expect.arrayContaining(['mkfs.ext4']), expect.anything());
+  });
+
+  test('wipes corrupted metadata', async () => {
+    const execSpy = mockExec(0, {'/var/lib/buildkit/cache.db': boltHeader(4096), '/var/lib/buildkit/history.db': Buffer.alloc(8192)});
+    expect(await stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'repair')).toEqual('wiped');
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['find', '/var/lib/buildkit', '-mindepth', '1', '-delete'], expect.anything());
+  });
+
+  test('fails on corrupted metadata', async () => {
+    mockExec(0, {'/var/lib/buildkit/history.db': Buffer.alloc(8192)});
+    await expect(stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'fail')).rejects.toThrow(stickydisk.IntegrityError);
+  });
+
+  test('invalid policy', async () => {
+    await expect(stickydisk.mount('/dev/vdb', '/var/lib/buildkit', 'ignore')).rejects.toThrow('Invalid sticky disk integrity policy "ignore", expected repair, wipe, fail');
+  });
+});
+
+describe('getStats', () => {
+  test('warm cache', async () => {
+    jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string, args?: string[]): Promise<ExecOutput> => {
+      if (cmd == 'df') {
+        return execOutput(0, '     1B-blocks        Used       Avail\n 52576092160 12582912000 37287882752\n');
+      }
+      return execOutput(0, args?.[0] == 'find' ? '/var/lib/buildkit/runc-overlayfs\n/var/lib/buildkit/history.db\n' : '');
+    });
+    expect(await stickydisk.getStats('/var/lib/buildkit')).toEqual({size: 52576092160, used: 12582912000, free: 37287882752, empty: false});
+  });
+
+  test('empty cache', async () => {
+    const execSpy = jest.spyOn(Exec, 'getExecOutput').mockImplementation(async (cmd: string): Promise<ExecOutput> => {
+      return execOutput(0, cmd == 'df' ? ' 1B-blocks Used Avail\n 1000 10 990\n' : '');
+    });
+    expect((await stickydisk.getStats('/var/lib/buildkit')).empty).toEqual(true);
+    expect(execSpy).toHaveBeenCalledWith('sudo', ['find', '/var/lib/buildkit', '-mindepth', '1', '-maxdepth', '1', '!', '-name', 'lost+found'], expect.anything());
+  });
+
+  test('invalid df output', async () => {
+    expect(() => stickydisk.parseDf('df: /var/lib/buildkit: No such file or directory')).toThrow('Cannot parse df output: df: /var/lib/buildkit: No such file or directory');
+  });
+});
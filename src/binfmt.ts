@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import * as core from '@actions/core';
+import {Docker} from '@docker/actions-toolkit/lib/docker/docker';
+
+import * as buildkit from './buildkit';
+import * as buildkitd from './buildkitd';
+import {execOrThrow} from './exec';
+
+export const binfmtDir = '/proc/sys/fs/binfmt_misc';
+
+// QEMU user emulators by platform architecture, named like the binfmt_misc
+// handlers registered by tonistiigi/binfmt and qemu-user-static.
+const qemuArchs: Record<string, string> = {
+  amd64: 'x86_64',
+  '386': 'i386',
+  arm64: 'aarch64',
+  arm: 'arm',
+  riscv64: 'riscv64',
+  ppc64le: 'ppc64le',
+  s390x: 's390x',
+  mips64le: 'mips64el',
+  mips64: 'mips64',
+  loong64: 'loongarch64'
+};
+
+// Returns the QEMU architecture emulating a platform (eg. linux/arm64).
+export function qemuArch(platform: string): string {
+  const [os, arch] = platform.trim().split('/');
+  if (os != 'linux' || !arch || !qemuArchs[arch]) {
+    throw new Error(`Cannot emulate platform "${platform}"`);
+  }
+  return qemuArchs[arch];
+}
+
+// Returns the QEMU architectures with an enabled binfmt_misc handler.
+export function registered(dir = binfmtDir): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter(name => name.startsWith('qemu-'))
+    .filter(name => fs.readFileSync(path.join(dir, name), 'utf8').split('\n')[0].trim() == 'enabled')
+    .map(name => name.substring('qemu-'.length));
+}
+
+/*
+ * Returns the QEMU architectures missing to emulate platforms. The native
+ * architecture of the runner doesn't need emulation.
+ * @param platforms: platforms to emulate (eg. linux/arm64)
+ * @param archs: QEMU architectures already registered
+ */
+export function missing(platforms: string[], archs: string[]): string[] {
+  const native = qemuArch(`linux/${buildkit.platformArch().replace(/-v\d+$/, '')}`);
+  const res: string[] = [];
+  for (const platform of platforms) {
+    const arch = qemuArch(platform);
+    if (arch != native && !archs.includes(arch) && !res.includes(arch)) {
+      res.push(arch);
+    }
+  }
+  return res;
+}
+
+// Where qemu-user-static puts its interpreters and binfmt_misc registrations.
+export interface StaticPaths {
+  bin: string;
+  conf: string;
+  binfmt: string;
+}
+
+export const staticPaths: StaticPaths = {
+  bin: '/usr/bin',
+  conf: '/usr/lib/binfmt.d',
+  binfmt: binfmtDir
+};
+
+async function installStatic(archs: string[], paths: StaticPaths): Promise<void> {
+  const missingBins = archs.filter(arch => !fs.existsSync(path.join(paths.bin, `qemu-${arch}-static`)));
+  if (missingBins.length > 0) {
+    core.info(`Installing qemu-user-static for ${missingBins.join(', ')}`);
+    await execOrThrow('sudo', ['apt-get', 'update', '-q']);
+    await execOrThrow('sudo', ['apt-get', 'install', '-y', '-q', '--no-install-recommends', 'qemu-user-static']);
+  }
+  for (const arch of archs) {
+    const handler = path.join(paths.binfmt, `qemu-${arch}`);
+    const conf = path.join(paths.conf, `qemu-${arch}-static.conf`);
+    if (fs.existsSync(handler)) {
+      // Registered but disabled.
+      await execOrThrow('sudo', ['sh', '-c', `echo 1 > ${handler}`]);
+    } else if (fs.existsSync(conf)) {
+      await execOrThrow('sudo', ['sh', '-c', `cat ${conf} > ${path.join(paths.binfmt, 'register')}`]);
+    } else {
+      await execOrThrow('sudo', ['update-binfmts', '--enable', `qemu-${arch}`]);
+    }
+    if (!registered(paths.binfmt).includes(arch)) {
+      throw new Error(`Cannot register static qemu-${arch} with binfmt_misc`);
+    }
+    core.info(`Registered static qemu-${arch}`);
+  }
+}
+
+/*
+ * Register binfmt_misc handlers with the binfmt image, or the static QEMU
+ * interpreters of qemu-user-static if Docker is not available
+ * @param archs: QEMU architectures to register
+ * @param image: binfmt image (eg. tonistiigi/binfmt:latest)
+ * @param paths: qemu-user-static and binfmt_misc paths
+ */
+export async function install(archs: string[], image: string, paths = staticPaths): Promise<void> {
+  if (await Docker.isAvailable()) {
+    core.info(`Installing QEMU emulators for ${archs.join(', ')} with ${image}`);
+    await execOrThrow('docker', ['run', '--rm', '--privileged', image, '--install', archs.join(',')]);
+    return;
+  }
+  await installStatic(archs, paths);
+}
+
+// Returns the platform with its default variant made explicit for arm and
+// dropped for arm64 and amd64, as containerd normalizes platforms.
+export function normalizePlatform(platform: string): string {
+  const [os, arch, variant] = platform.trim().split('/');
+  if (arch == 'arm') {
+    return `${os}/arm/${variant || 'v7'}`;
+  }
+  if ((arch == 'arm64' && variant == 'v8') || (arch == 'amd64' && variant == 'v1')) {
+    return `${os}/${arch}`;
+  }
+  return variant ? `${os}/${arch}/${variant}` : `${os}/${arch}`;
+}
+
+// Parses the platforms of the workers from "buildctl debug workers --verbose".
+export function parseWorkerPlatforms(stdout: string): string[] {
+  const platforms: string[] = [];
+  for (const line of stdout.split(/\r?\n/)) {
+    const sep = line.indexOf(':');
+    if (sep < 0 || line.substring(0, sep).trim().toLowerCase() != 'platforms') {
+      continue;
+    }
+    for (const platform of line.substring(sep + 1).split(',')) {
+      if (platform.trim() && !platforms.includes(platform.trim())) {
+        platforms.push(platform.trim());
+      }
+    }
+  }
+  return platforms;
+}
+
+/*
+ * Check that the buildkitd workers report the platforms, which they only do
+ * once the emulators are registered
+ * @returns platforms reported by the workers
+ */
+export async function verify(endpoint: string, driverOpts: string[], platforms: string[]): Promise<string[]> {
+  const res = await execOrThrow('buildctl', [...buildkitd.buildctlArgs(endpoint, driverOpts), 'debug', 'workers', '--verbose']);
+  const available = parseWorkerPlatforms(res.stdout);
+  const normalized = available.map(normalizePlatform);
+  const unsupported = platforms.filter(platform => !normalized.includes(normalizePlatform(platform)));
+  if (unsupported.length > 0) {
+    throw new Error(`buildkitd workers don't support ${unsupported.join(', ')} (available: ${available.join(', ')})`);
+  }
+  return available;
+}
@@ -0,0 +1,354 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as util from 'util';
+import * as cache from '@actions/cache';
+import * as core from '@actions/core';
+import * as tc from '@actions/tool-cache';
+import axios from 'axios';
+import * as semver from 'semver';
+import {Buildx} from '@docker/actions-toolkit/lib/buildx/buildx';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+import {GitHubRelease} from '@docker/actions-toolkit/lib/types/github';
+
+import * as stateHelper from './state-helper';
+
+export const releasesURL = 'https://raw.githubusercontent.com/docker/actions-toolkit/main/.github/buildkit-releases.json';
+export const downloadURL = 'https://github.com/moby/buildkit/releases/download/%s/%s';
+export const binDir = '/usr/local/bin';
+
+const htcName = 'buildkit-dl-bin';
+
+export interface DownloadVersion {
+  version: string;
+  tag: string;
+  arch: string;
+  filename: string;
+  url: string;
+  checksumsURL?: string;
+}
+
+export interface InstallOpts {
+  version: string;
+  // Pinned SHA-256 digest of the release tarball. Takes precedence over the
+  // checksums published with the release.
+  sha256?: string;
+  // Install binaries without verification if no digest is pinned or
+  // published. Downloads are refused otherwise.
+  skipVerify?: boolean;
+  // Disable binary caching in GitHub Actions cache backend.
+  ghaNoCache?: boolean;
+  // Semver range an already installed buildkitd must satisfy to be reused
+  // instead of downloading the release.
+  versionRange?: string;
+}
+
+export interface CacheState {
+  dir: string;
+  key: string;
+}
+
+// Maps the Node.js architecture of the runner to the one used in BuildKit
+// release asset names.
+export function platformArch(): string {
+  switch (os.arch()) {
+    case 'x64': {
+      return 'amd64';
+    }
+    case 'ppc64': {
+      return 'ppc64le';
+    }
+    case 'arm': {
+      const arm_version = (process.config.variables as unknown as Record<string, unknown>).arm_version;
+      return arm_version ? `arm-v${arm_version}` : 'arm-v7';
+    }
+    default: {
+      return os.arch();
+    }
+  }
+}
+
+export function filename(tag: string, arch: string): string {
+  return util.format('buildkit-%s.linux-%s.tar.gz', tag, arch);
+}
+
+export async function getRelease(version: string): Promise<GitHubRelease> {
+  const resp = await axios.get(releasesURL, {
+    responseType: 'text',
+    validateStatus: () => true
+  });
+  if (resp.status >= 400) {
+    throw new Error(`Failed to get BuildKit releases from ${releasesURL} with status code ${resp.status}: ${resp.data}`);
+  }
+  const releases: Record<string, GitHubRelease> = typeof resp.data === 'string' ? JSON.parse(resp.data) : resp.data;
+  if (!releases[version]) {
+    throw new Error(`Cannot find BuildKit release ${version} in ${releasesURL}`);
+  }
+  return releases[version];
+}
+
+// Resolves the version input ("latest", "v0.13.2" or "0.13.2") to the release
+// asset matching the runner architecture.
+export async function getDownloadVersion(version: string): Promise<DownloadVersion> {
+  const v = normalizeVersion(version);
+  const release = await getRelease(v);
+  const arch = platformArch();
+  const file = filename(release.tag_name, arch);
+  const url = util.format(downloadURL, release.tag_name, file);
+  if (release.assets && !release.assets.some(asset => asset.endsWith(`/${file}`))) {
+    throw new Error(`BuildKit ${release.tag_name} does not provide a release for linux/${arch} (${file} not found)`);
+  }
+  return {
+    version: v,
+    tag: release.tag_name,
+    arch: arch,
+    filename: file,
+    url: url,
+    checksumsURL: release.assets?.find(asset => asset.endsWith('/checksums.txt') || asset.endsWith(`/${file}.sha256`))
+  };
+}
+
+function normalizeVersion(version: string): string {
+  return version == 'latest' ? version : `v${version.replace(/^v+/, '')}`;
+}
+
+function cacheDir(tag: string, arch: string): string {
+  return path.join(Buildx.configDir, '.bin', 'buildkit', tag, `linux-${arch}`);
+}
+
+// The verified digest of the release tarball is part of the GitHub Actions
+// cache key, so a pinned digest never restores other binaries.
+function cacheKey(tag: string, arch: string, digest: string): string {
+  return util.format('%s-%s-linux-%s-%s', htcName, tag, arch, digest || 'unverified');
+}
+
+// The hosted tool cache is keyed by version only, the verified digest is kept
+// next to the cached binaries.
+function digestFile(htcPath: string): string {
+  return `${htcPath}.sha256`;
+}
+
+function cachedDigest(htcPath: string): string {
+  try {
+    return fs.readFileSync(digestFile(htcPath), 'utf8').trim();
+  } catch (e) {
+    return '';
+  }
+}
+
+export function normalizeDigest(digest: string): string {
+  return digest
+    .trim()
+    .replace(/^sha256:/, '')
+    .toLowerCase();
+}
+
+/*
+ * Find BuildKit binaries in the hosted tool cache, or restore them from the
+ * GitHub Actions cache backend
+ * @param digest: SHA-256 digest of the release tarball the binaries must come
+ * from, empty if they are installed unverified
+ * @returns path to the directory holding the BuildKit binaries or empty string
+ */
+export async function findCache(tag: string, arch: string, digest: string, ghaNoCache?: boolean): Promise<string> {
+  const htcVersion = tag.replace(/^v/, '');
+  let htcPath = tc.find(htcName, htcVersion, arch);
+  if (htcPath) {
+    const cached = cachedDigest(htcPath);
+    if (!digest || cached == digest) {
+      core.info(`Restored from hosted tool cache ${htcPath}`);
+      return htcPath;
+    }
+    core.info(`Ignoring hosted tool cache ${htcPath} (sha256:${cached || 'unknown'}), sha256:${digest} is expected`);
+  }
+  if (!ghaNoCache && cache.isFeatureAvailable()) {
+    const key = cacheKey(tag, arch, digest);
+    if (await cache.restoreCache([cacheDir(tag, arch)], key)) {
+      core.info(`Restored ${key} from GitHub Actions cache`);
+      htcPath = await tc.cacheDir(cacheDir(tag, arch), htcName, htcVersion, arch);
+      fs.writeFileSync(digestFile(htcPath), digest);
+      core.info(`Cached to hosted tool cache ${htcPath}`);
+      return htcPath;
+    }
+  } else if (ghaNoCache) {
+    core.info(`GitHub Actions cache disabled`);
+  }
+  return '';
+}
+
+/*
+ * Save BuildKit binaries to the hosted tool cache. The GitHub Actions cache
+ * entry is sent to post state and saved at the end of the job.
+ * @param digest: verified SHA-256 digest of the release tarball
+ * @returns path to the directory holding the cached BuildKit binaries
+ */
+export async function saveCache(srcDir: string, tag: string, arch: string, digest: string, ghaNoCache?: boolean): Promise<string> {
+  const htcPath = await tc.cacheDir(srcDir, htcName, tag.replace(/^v/, ''), arch);
+  fs.writeFileSync(digestFile(htcPath), digest);
+  core.debug(`BuildKit cached to hosted tool cache ${htcPath}`);
+  if (!ghaNoCache && cache.isFeatureAvailable()) {
+    const dir = cacheDir(tag, arch);
+    fs.mkdirSync(dir, {recursive: true});
+    fs.cpSync(srcDir, dir, {recursive: true});
+    stateHelper.setBuildkitCache(JSON.stringify({dir: dir, key: cacheKey(tag, arch, digest)}));
+  }
+  return htcPath;
+}
+
+export async function postCache(state: string): Promise<void> {
+  let cacheState: CacheState;
+  try {
+    cacheState = JSON.parse(state);
+  } catch (e) {
+    throw new Error(`Failed to parse BuildKit cache post state: ${e}`);
+  }
+  core.info(`Caching ${cacheState.key} to GitHub Actions cache`);
+  await cache.saveCache([cacheState.dir], cacheState.key);
+}
+
+// Parses a sha256sum formatted file and returns the digest for the given
+// filename.
+export function parseChecksums(content: string, file: string): string | undefined {
+  for (const line of content.split(/\r?\n/)) {
+    const [digest, name] = line.trim().split(/\s+/);
+    if (!digest || (name && name.replace(/^\*/, '') != file)) {
+      continue;
+    }
+    return digest.toLowerCase();
+  }
+  return undefined;
+}
+
+export async function getChecksum(dlVersion: DownloadVersion): Promise<string | undefined> {
+  if (!dlVersion.checksumsURL) {
+    return undefined;
+  }
+  const resp = await axios.get(dlVersion.checksumsURL, {
+    responseType: 'text',
+    validateStatus: () => true
+  });
+  if (resp.status >= 400) {
+    throw new Error(`Failed to get BuildKit checksums from ${dlVersion.checksumsURL} with status code ${resp.status}`);
+  }
+  const digest = parseChecksums(resp.data, dlVersion.filename);
+  if (!digest) {
+    throw new Error(`Cannot find checksum of ${dlVersion.filename} in ${dlVersion.checksumsURL}`);
+  }
+  return digest;
+}
+
+export async function sha256File(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(file)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+export async function verifyChecksum(file: string, expected: string): Promise<void> {
+  const want = normalizeDigest(expected);
+  const got = await sha256File(file);
+  if (got != want) {
+    throw new Error(`Checksum mismatch for ${path.basename(file)}: expected sha256:${want}, got sha256:${got}`);
+  }
+  core.info(`Checksum verified (sha256:${got})`);
+}
+
+/*
+ * Download BuildKit binaries from GitHub release and verify the tarball
+ * against the pinned or published SHA-256 digest. Binaries are looked up in
+ * the cache by that digest first and saved to it after download.
+ * @param opts: install options
+ * @returns path to the directory holding the BuildKit binaries
+ */
+export async function download(opts: InstallOpts): Promise<string> {
+  const arch = platformArch();
+  const version = normalizeVersion(opts.version);
+  // A pinned version and digest identify the binaries without resolving the
+  // release.
+  if (version != 'latest' && opts.sha256) {
+    const cacheFoundPath = await findCache(version, arch, normalizeDigest(opts.sha256), opts.ghaNoCache);
+    if (cacheFoundPath) {
+      core.info(`BuildKit binaries found in ${cacheFoundPath}`);
+      return cacheFoundPath;
+    }
+  }
+  const dlVersion = await getDownloadVersion(version);
+  const checksum = opts.sha256 || (await getChecksum(dlVersion));
+  if (!checksum && !opts.skipVerify) {
+    throw new Error(`No published checksum found for ${dlVersion.filename}. Set buildkit-sha256 input to pin the digest, or buildkit-skip-verify to install it unverified.`);
+  }
+  const digest = checksum ? normalizeDigest(checksum) : '';
+  if (version == 'latest' || !opts.sha256) {
+    const cacheFoundPath = await findCache(dlVersion.tag, arch, digest, opts.ghaNoCache);
+    if (cacheFoundPath) {
+      core.info(`BuildKit binaries found in ${cacheFoundPath}`);
+      return cacheFoundPath;
+    }
+  }
+  core.info(`Downloading ${dlVersion.url}`);
+  const tarPath = await tc.downloadTool(dlVersion.url);
+  core.debug(`BuildKit download path: ${tarPath}`);
+  if (digest) {
+    await verifyChecksum(tarPath, digest);
+  } else {
+    core.warning(`No published checksum found for ${dlVersion.filename}, installing it unverified as requested by buildkit-skip-verify`);
+  }
+  const extractPath = await tc.extractTar(tarPath);
+  core.debug(`BuildKit extract path: ${extractPath}`);
+  const cacheSavePath = await saveCache(path.join(extractPath, 'bin'), dlVersion.tag, arch, digest, opts.ghaNoCache);
+  core.info(`Cached to ${cacheSavePath}`);
+  return cacheSavePath;
+}
+
+// Parses the output of "buildkitd --version", eg.
+// "buildkitd github.com/moby/buildkit v0.13.2 2ae42e0c0c793d7d66b7a23424af6fd6c2f9c8f3".
+export function parseVersion(stdout: string): string | undefined {
+  const match = stdout.match(/\sv?(\d+\.\d+\.\d+[^\s]*)/);
+  return match ? match[1] : undefined;
+}
+
+export async function getInstalledVersion(): Promise<string | undefined> {
+  try {
+    const res = await Exec.getExecOutput('buildkitd', ['--version'], {
+      ignoreReturnCode: true,
+      silent: true
+    });
+    if (res.exitCode != 0) {
+      core.debug(`buildkitd --version failed: ${res.stderr.trim()}`);
+      return undefined;
+    }
+    return parseVersion(res.stdout);
+  } catch (e) {
+    core.debug(`buildkitd not found: ${e.message}`);
+    return undefined;
+  }
+}
+
+export function versionSatisfies(version: string, range: string): boolean {
+  return semver.satisfies(version, range, {includePrerelease: true});
+}
+
+export async function install(opts: InstallOpts): Promise<void> {
+  if (opts.versionRange) {
+    const installedVersion = await getInstalledVersion();
+    if (installedVersion && versionSatisfies(installedVersion, opts.versionRange)) {
+      core.info(`Using installed buildkitd v${installedVersion} (satisfies ${opts.versionRange})`);
+      return;
+    }
+    core.info(installedVersion ? `Installed buildkitd v${installedVersion} does not satisfy ${opts.versionRange}, downloading BuildKit ${opts.version}` : `buildkitd not found, downloading BuildKit ${opts.version}`);
+  }
+  const srcDir = await download(opts);
+  await Exec.getExecOutput('sudo', ['cp', '-r', `${srcDir}/.`, binDir], {
+    ignoreReturnCode: true,
+    silent: true
+  }).then(res => {
+    if (res.stderr.length > 0 && res.exitCode != 0) {
+      throw new Error(res.stderr.match(/(.*)\s*$/)?.[0]?.trim() ?? 'unknown error');
+    }
+  });
+  core.info(`BuildKit binaries installed to ${binDir}`);
+}
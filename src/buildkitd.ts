@@ -0,0 +1,695 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as core from '@actions/core';
+import * as TOML from '@iarna/toml';
+import {Buildx} from '@docker/actions-toolkit/lib/buildx/buildx';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+import {Util} from '@docker/actions-toolkit/lib/util';
+
+import {execOrThrow} from './exec';
+
+export const logFile = 'buildkitd.log';
+export const socketPath = '/run/buildkit/buildkitd.sock';
+
+export interface Listener {
+  // Address buildkitd listens on.
+  addr: string;
+  // Endpoint the buildx remote driver connects to.
+  endpoint: string;
+  // buildkitd flags required to serve this listener.
+  flags: string[];
+  // Driver options required to connect to this listener.
+  driverOpts: string[];
+}
+
+export interface ShutdownOpts {
+  // Seconds to wait for buildkitd to exit after SIGTERM before sending SIGKILL.
+  timeout?: number;
+  // Seconds to wait for buildkitd to exit after SIGKILL.
+  killTimeout?: number;
+}
+
+// Managed buildkitd shared by the setup steps of a job.
+export interface Daemon {
+  pid: number;
+  // Endpoint and driver options to reach the daemon with the remote driver.
+  endpoint: string;
+  driverOpts: string[];
+  // Flags the daemon has been started with.
+  flags: string;
+  // Generated config file, in the directory also holding the TLS certs of the
+  // listener.
+  configFile: string;
+  // Outcome of the sticky disk setup of the step that started the daemon.
+  stickyDisk: string;
+  // Sticky disk holding the daemon root, empty if not mounted.
+  stickyDiskDevice: string;
+  stickyDiskMountPoint: string;
+  // Number of setup steps using the daemon, released in their post step.
+  refs: number;
+}
+
+export interface TLSCerts {
+  cacert: string;
+  serverCert: string;
+  serverKey: string;
+  clientCert: string;
+  clientKey: string;
+}
+
+export interface RegistryOpts {
+  // Registry mirrors as [<host>=]<mirror>, docker.io if no host is given.
+  mirrors: string[];
+  // Registries reached over plain HTTP.
+  http: string[];
+  // Registries whose TLS certificate is not verified.
+  insecure: string[];
+  // CA certificates trusted for a registry as <host>=<file>.
+  ca: string[];
+}
+
+export interface FilesystemSpace {
+  capacity: number;
+  // Space available to unprivileged users.
+  free: number;
+}
+
+export interface GCOpts {
+  // Percentage of the filesystem capacity the cache may use.
+  keepPercentage: string;
+  // Space to always leave free on the filesystem (eg. 2GB, 512MiB, 10%).
+  reservedSpace: string;
+  // Age after which records matching filters are pruned (eg. 48h, 172800).
+  keepDuration: string;
+  // Record filters of the age based policy (eg. type==exec.cachemount).
+  filters: string[];
+}
+
+export interface WaitOpts {
+  addr: string;
+  // Process id of buildkitd, to fail early if it exits.
+  pid: number;
+  // Driver options of the listener (cacert, cert and key for mutual TLS).
+  driverOpts?: string[];
+  // Seconds to wait for the gRPC endpoint to answer.
+  timeout?: number;
+  // Seconds between two probes.
+  interval?: number;
+}
+
+function isTable(value: TOML.AnyJson | undefined): value is TOML.JsonMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/*
+ * Deep-merge a user provided buildkitd config into the generated one.
+ * Tables are merged recursively. On conflicting keys the user value wins,
+ * and arrays (eg. worker.oci.gcpolicy) are replaced as a whole rather than
+ * concatenated.
+ */
+export function mergeConfig(generated: TOML.JsonMap, user: TOML.JsonMap): TOML.JsonMap {
+  const merged: TOML.JsonMap = {...generated};
+  for (const [key, value] of Object.entries(user)) {
+    const current = merged[key];
+    merged[key] = isTable(current) && isTable(value) ? mergeConfig(current, value) : value;
+  }
+  return merged;
+}
+
+// Parses the buildkitd-config file or buildkitd-config-inline input.
+export function parseUserConfig(configFile: string, configInline: string): TOML.JsonMap | undefined {
+  try {
+    if (configFile) {
+      return TOML.parse(fs.readFileSync(configFile, 'utf8'));
+    } else if (configInline) {
+      return TOML.parse(configInline);
+    }
+  } catch (e) {
+    throw new Error(`Invalid buildkitd config: ${e.message}`);
+  }
+  return undefined;
+}
+
+const byteUnits: Record<string, number> = {
+  b: 1,
+  kb: 1000,
+  mb: 1000 ** 2,
+  gb: 1000 ** 3,
+  tb: 1000 ** 4,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4
+};
+
+// Parses a byte size (eg. 1073741824, 2GB, 512MiB). Percentages are resolved
+// against total.
+export function parseBytes(value: string, total?: number): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(%|[kmgt]i?b|b)?$/i);
+  if (!match) {
+    throw new Error(`Invalid size "${value}"`);
+  }
+  const num = parseFloat(match[1]);
+  const unit = (match[2] || 'b').toLowerCase();
+  if (unit == '%') {
+    if (total === undefined) {
+      throw new Error(`Percentage not allowed for size "${value}"`);
+    }
+    return Math.floor((total * num) / 100);
+  }
+  return Math.floor(num * byteUnits[unit]);
+}
+
+// Formats a byte size with decimal units (eg. 1.5GB).
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'kB', 'MB', 'GB', 'TB'];
+  let i = 0;
+  let value = bytes;
+  while (value >= 1000 && i < units.length - 1) {
+    value /= 1000;
+    i++;
+  }
+  return `${i == 0 ? value : parseFloat(value.toFixed(2))}${units[i]}`;
+}
+
+const durationUnits: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60
+};
+
+// Parses a duration (eg. 48h, 2d, 172800) to seconds.
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([smhd])?$/i);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}"`);
+  }
+  return parseInt(match[1], 10) * durationUnits[(match[2] || 's').toLowerCase()];
+}
+
+// Returns the capacity and free space in bytes of the filesystem holding dir,
+// or its closest existing parent. Blocks reserved to root are not accounted
+// for, unlike the size of the underlying block device.
+export function getFilesystemSpace(dir: string): FilesystemSpace {
+  let target = dir;
+  while (!fs.existsSync(target) && path.dirname(target) != target) {
+    target = path.dirname(target);
+  }
+  const stats = fs.statfsSync(target);
+  return {
+    capacity: (stats.blocks - stats.bfree + stats.bavail) * stats.bsize,
+    free: stats.bavail * stats.bsize
+  };
+}
+
+// Whether dir is the root of its own filesystem, eg. the sticky disk mount.
+function isMountPoint(dir: string): boolean {
+  return fs.statSync(dir).dev != fs.statSync(path.dirname(dir)).dev;
+}
+
+/*
+ * Returns the bytes used by the BuildKit root, 0 if it doesn't exist yet. The
+ * used space of the filesystem is taken if the root is mounted on its own, so
+ * a warm cache isn't walked before buildkitd starts.
+ * @param root: BuildKit root directory
+ * @param space: capacity and free space of the filesystem holding root
+ */
+export async function getCacheUsage(root: string, space: FilesystemSpace): Promise<number> {
+  if (!fs.existsSync(root)) {
+    return 0;
+  }
+  if (isMountPoint(root)) {
+    return space.capacity - space.free;
+  }
+  const res = await Exec.getExecOutput('sudo', ['du', '-s', '-x', '-B1', root], {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  const usage = parseInt(res.stdout.trim().split(/\s+/)[0], 10);
+  if (res.exitCode != 0 || isNaN(usage)) {
+    core.debug(`du ${root} failed: ${res.stderr.trim()}`);
+    return 0;
+  }
+  return usage;
+}
+
+/*
+ * Generate the OCI worker GC config. The cache is allowed to keep the lower of
+ * keepPercentage of the filesystem capacity and the space it can grow to (free
+ * space plus what it already uses) minus the reserved space, so the disk never
+ * fills up completely even when shared with other data.
+ * @param space: capacity and free space of the filesystem in bytes
+ * @param cacheUsage: bytes already used by the cache on the filesystem
+ * @param opts: GC options
+ */
+export function getGCConfig(space: FilesystemSpace, cacheUsage: number, opts: GCOpts): TOML.JsonMap {
+  const keepPercentage = parseFloat(opts.keepPercentage);
+  if (isNaN(keepPercentage) || keepPercentage <= 0 || keepPercentage > 100) {
+    throw new Error(`Invalid GC keep percentage "${opts.keepPercentage}"`);
+  }
+  const reserved = parseBytes(opts.reservedSpace, space.capacity);
+  const keepBytes = Math.max(0, Math.min(Math.floor((space.capacity * keepPercentage) / 100), space.capacity - reserved, space.free + cacheUsage - reserved));
+  const agePolicy: TOML.JsonMap = {
+    keepBytes: keepBytes,
+    keepDuration: parseDuration(opts.keepDuration)
+  };
+  if (opts.filters.length > 0) {
+    agePolicy.filters = opts.filters;
+  }
+  return {
+    worker: {
+      oci: {
+        enabled: true,
+        gc: true,
+        gckeepstorage: keepBytes,
+        gcpolicy: [
+          agePolicy,
+          {
+            all: true,
+            keepBytes: keepBytes
+          }
+        ]
+      }
+    }
+  };
+}
+
+function splitHost(entry: string): [string, string] {
+  const sep = entry.indexOf('=');
+  return sep < 0 ? ['', entry.trim()] : [entry.substring(0, sep).trim(), entry.substring(sep + 1).trim()];
+}
+
+/*
+ * Build the registry sections of the buildkitd config. CA certificates are
+ * copied to caDir so they are removed along with the buildx certs in post step.
+ * @param opts: registry options
+ * @param caDir: directory holding the copied CA certificates
+ */
+export function getRegistryConfig(opts: RegistryOpts, caDir: string): TOML.JsonMap {
+  const registries: Record<string, TOML.JsonMap> = {};
+  const registry = (host: string): TOML.JsonMap => {
+    if (!host) {
+      throw new Error('Registry host cannot be empty');
+    }
+    return (registries[host] = registries[host] || {});
+  };
+  for (const entry of opts.mirrors) {
+    const [host, mirror] = splitHost(entry);
+    const config = registry(host || 'docker.io');
+    config.mirrors = [...((config.mirrors as string[]) || []), mirror.replace(/^https?:\/\//, '').replace(/\/+$/, '')];
+  }
+  for (const host of opts.http) {
+    registry(host.trim()).http = true;
+  }
+  for (const host of opts.insecure) {
+    registry(host.trim()).insecure = true;
+  }
+  for (const entry of opts.ca) {
+    const [host, file] = splitHost(entry);
+    if (!host) {
+      throw new Error(`Invalid registry CA "${entry}", expected <host>=<file>`);
+    }
+    if (!fs.existsSync(file)) {
+      throw new Error(`Registry CA file ${file} not found`);
+    }
+    const dir = path.join(caDir, host.replace(/[^a-zA-Z0-9.-]/g, '_'));
+    fs.mkdirSync(dir, {recursive: true});
+    const dest = path.join(dir, path.basename(file));
+    fs.copyFileSync(file, dest);
+    const config = registry(host);
+    config.ca = [...((config.ca as string[]) || []), dest];
+  }
+  return Object.keys(registries).length > 0 ? {registry: registries} : {};
+}
+
+/*
+ * Write the buildkitd config to a private temp dir under the buildx certs dir
+ * so it's only readable by the runner user and root.
+ * @returns path to the config file
+ */
+export function writeConfig(config: TOML.JsonMap): string {
+  fs.mkdirSync(Buildx.certsDir, {recursive: true});
+  const configDir = fs.mkdtempSync(path.join(Buildx.certsDir, 'buildkitd-'));
+  fs.chmodSync(configDir, 0o700);
+  const configFile = path.join(configDir, 'buildkitd.toml');
+  fs.writeFileSync(configFile, TOML.stringify(config), {mode: 0o600});
+  return configFile;
+}
+
+// Returns the flags of the managed buildkitd: allowed insecure entitlements
+// followed by the extra flags passed through verbatim.
+export function getFlags(entitlements: string[], extraFlags: string): string {
+  const flags = entitlements.map(entitlement => `--allow-insecure-entitlement ${entitlement}`);
+  if (extraFlags.trim()) {
+    flags.push(extraFlags.trim());
+  }
+  return flags.join(' ');
+}
+
+// Returns the names and addresses remote clients may use to reach the runner.
+export function tlsHosts(): string[] {
+  const hosts = ['127.0.0.1', 'localhost', os.hostname()];
+  for (const addrs of Object.values(os.networkInterfaces())) {
+    for (const addr of addrs || []) {
+      if (!addr.internal && addr.family == 'IPv4') {
+        hosts.push(addr.address);
+      }
+    }
+  }
+  return hosts.filter((host, index) => hosts.indexOf(host) == index);
+}
+
+/*
+ * Generate a CA, a server certificate for buildkitd valid for hosts and a
+ * client certificate for buildx, all short-lived, using openssl
+ * @param dir: directory to write the certificates to
+ * @param hosts: DNS names and IP addresses of the server certificate
+ */
+export async function generateCerts(dir: string, hosts: string[]): Promise<TLSCerts> {
+  fs.mkdirSync(dir, {recursive: true, mode: 0o700});
+  const certs: TLSCerts = {
+    cacert: path.join(dir, 'ca.pem'),
+    serverCert: path.join(dir, 'server-cert.pem'),
+    serverKey: path.join(dir, 'server-key.pem'),
+    clientCert: path.join(dir, 'client-cert.pem'),
+    clientKey: path.join(dir, 'client-key.pem')
+  };
+  const caKey = path.join(dir, 'ca-key.pem');
+  const keyOpts = ['-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:prime256v1', '-nodes'];
+  await execOrThrow('openssl', ['req', '-x509', ...keyOpts, '-days', '1', '-subj', '/CN=buildkitd-ca', '-keyout', caKey, '-out', certs.cacert]);
+
+  const san = hosts.map(host => (/^[\d.]+$|:/.test(host) ? `IP:${host}` : `DNS:${host}`)).join(',');
+  // prettier-ignore
+  const leaves: Array<[string, string, string, string]> = [
+    ['buildkitd', certs.serverKey, certs.serverCert, `subjectAltName=${san}\nextendedKeyUsage=serverAuth\n`],
+    ['buildx', certs.clientKey, certs.clientCert, 'extendedKeyUsage=clientAuth\n']
+  ];
+  for (const [cn, key, cert, ext] of leaves) {
+    const csr = path.join(dir, `${cn}.csr`);
+    const extFile = path.join(dir, `${cn}.ext`);
+    fs.writeFileSync(extFile, ext);
+    await execOrThrow('openssl', ['req', ...keyOpts, '-subj', `/CN=${cn}`, '-keyout', key, '-out', csr]);
+    await execOrThrow('openssl', ['x509', '-req', '-in', csr, '-CA', certs.cacert, '-CAkey', caKey, '-CAcreateserial', '-days', '1', '-extfile', extFile, '-out', cert]);
+    fs.rmSync(csr);
+    fs.rmSync(extFile);
+  }
+  for (const file of fs.readdirSync(dir)) {
+    fs.chmodSync(path.join(dir, file), 0o600);
+  }
+  return certs;
+}
+
+/*
+ * Resolve how buildkitd listens for connections
+ * @param listen: unix (socket owned by the runner group), loopback (TCP on
+ * 127.0.0.1) or remote (TCP on all interfaces with mutual TLS)
+ * @param port: TCP port for loopback and remote listeners
+ * @param certsDir: directory to write TLS certificates to for remote listener
+ */
+export async function getListener(listen: string, port: number, certsDir: string): Promise<Listener> {
+  switch (listen) {
+    case 'unix': {
+      // buildkitd creates the socket dir with 0700 otherwise, which the
+      // runner user can't traverse.
+      await execOrThrow('sudo', ['mkdir', '-p', path.dirname(socketPath)]);
+      await execOrThrow('sudo', ['chmod', '0755', path.dirname(socketPath)]);
+      return {
+        addr: `unix://${socketPath}`,
+        endpoint: `unix://${socketPath}`,
+        flags: ['--group', `${process.getgid ? process.getgid() : 0}`],
+        driverOpts: []
+      };
+    }
+    case 'loopback': {
+      return {
+        addr: `tcp://127.0.0.1:${port}`,
+        endpoint: `tcp://127.0.0.1:${port}`,
+        flags: [],
+        driverOpts: []
+      };
+    }
+    case 'remote': {
+      const certs = await generateCerts(certsDir, tlsHosts());
+      return {
+        addr: `tcp://0.0.0.0:${port}`,
+        endpoint: `tcp://127.0.0.1:${port}`,
+        flags: ['--tlscacert', certs.cacert, '--tlscert', certs.serverCert, '--tlskey', certs.serverKey],
+        driverOpts: [`cacert=${certs.cacert}`, `cert=${certs.clientCert}`, `key=${certs.clientKey}`]
+      };
+    }
+    default: {
+      throw new Error(`Invalid buildkitd-listen "${listen}", expected unix, loopback or remote`);
+    }
+  }
+}
+
+// Whether the buildkitd process started by the action is still alive. It runs
+// as root so the probe goes through sudo.
+export async function isRunning(pid: number): Promise<boolean> {
+  const res = await Exec.getExecOutput('sudo', ['kill', '-0', `${pid}`], {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  return res.exitCode == 0;
+}
+
+async function waitExit(pid: number, timeout: number): Promise<boolean> {
+  const deadline = Date.now() + timeout * 1000;
+  while (await isRunning(pid)) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await Util.sleep(1);
+  }
+  return true;
+}
+
+/*
+ * Stop the buildkitd process started by the action and wait for it to exit so
+ * its bolt databases are flushed before the cache is unmounted. Other
+ * buildkitd processes on the runner are left alone. Escalates to SIGKILL after
+ * the timeout.
+ * @param pid: process id of buildkitd
+ * @throws if buildkitd is still running after SIGKILL
+ */
+export async function shutdown(pid: number, opts?: ShutdownOpts): Promise<void> {
+  const timeout = opts?.timeout ?? 30;
+  if (!(await isRunning(pid))) {
+    core.info(`buildkitd (pid ${pid}) is not running`);
+    return;
+  }
+  await Exec.getExecOutput('sudo', ['kill', '-TERM', `${pid}`], {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  if (await waitExit(pid, timeout)) {
+    core.info(`buildkitd (pid ${pid}) stopped`);
+    return;
+  }
+  core.warning(`buildkitd (pid ${pid}) did not stop within ${timeout}s, sending SIGKILL`);
+  await Exec.getExecOutput('sudo', ['kill', '-KILL', `${pid}`], {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  if (!(await waitExit(pid, opts?.killTimeout ?? 10))) {
+    throw new Error(`buildkitd (pid ${pid}) is still running after SIGKILL`);
+  }
+  core.info(`buildkitd (pid ${pid}) killed`);
+}
+
+// Returns the file recording the managed buildkitd of the job. RUNNER_TEMP is
+// shared by the steps of a job and emptied between jobs.
+export function daemonFile(): string {
+  return path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'setup-buildx-buildkitd.json');
+}
+
+export function readDaemon(file: string): Daemon | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return <Daemon>JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function writeDaemon(file: string, daemon: Daemon): void {
+  // Written to a temp file first so a step never reads a partial record.
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(daemon));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+/*
+ * Record the buildkitd started by this setup step so later setup steps of the
+ * job reuse it, with a single reference held by this step.
+ */
+export function registerDaemon(file: string, daemon: Omit<Daemon, 'refs'>): Daemon {
+  const res: Daemon = {...daemon, refs: 1};
+  writeDaemon(file, res);
+  return res;
+}
+
+/*
+ * Take a reference on the buildkitd started by a previous setup step of the
+ * job. A record left by a daemon that is not running anymore is discarded.
+ * @returns the daemon to reuse, undefined if a new one must be started
+ */
+export async function acquireDaemon(file: string): Promise<Daemon | undefined> {
+  const daemon = readDaemon(file);
+  if (!daemon) {
+    return undefined;
+  }
+  if (!(await isRunning(daemon.pid))) {
+    core.info(`buildkitd (pid ${daemon.pid}) started by a previous setup step is not running anymore`);
+    fs.rmSync(file, {force: true});
+    return undefined;
+  }
+  daemon.refs++;
+  writeDaemon(file, daemon);
+  return daemon;
+}
+
+/*
+ * Drop the reference held by this setup step. The record is removed with the
+ * last reference, the caller is then in charge of stopping the daemon.
+ * @returns number of setup steps still using the daemon
+ */
+export function releaseDaemon(file: string, pid: number): number {
+  const daemon = readDaemon(file);
+  if (!daemon || daemon.pid != pid) {
+    // Another daemon replaced ours, nobody else can be using it.
+    return 0;
+  }
+  daemon.refs--;
+  if (daemon.refs > 0) {
+    writeDaemon(file, daemon);
+    return daemon.refs;
+  }
+  fs.rmSync(file, {force: true});
+  return 0;
+}
+
+// Returns the last lines of the buildkitd log to surface daemon errors.
+export function tailLog(lines = 20): string {
+  if (!fs.existsSync(logFile)) {
+    return `${logFile} not found`;
+  }
+  return fs.readFileSync(logFile, 'utf8').trimEnd().split('\n').slice(-lines).join('\n');
+}
+
+// Returns the buildctl global flags to connect to a listener endpoint.
+export function buildctlArgs(endpoint: string, driverOpts?: string[]): string[] {
+  const args = ['--addr', endpoint];
+  const flags: Record<string, string> = {cacert: '--tlscacert', cert: '--tlscert', key: '--tlskey'};
+  for (const driverOpt of driverOpts || []) {
+    const key = driverOpt.substring(0, driverOpt.indexOf('='));
+    if (flags[key]) {
+      args.push(flags[key], driverOpt.substring(key.length + 1));
+    }
+  }
+  return args;
+}
+
+// Disk usage of the BuildKit records of a type.
+export interface DiskUsage {
+  count: number;
+  size: number;
+  reclaimable: number;
+}
+
+// Parses the output of "buildctl du --verbose" and sums up the size of the
+// records by type.
+export function parseDiskUsage(stdout: string): Record<string, DiskUsage> {
+  const usage: Record<string, DiskUsage> = {};
+  // Records are separated by blank lines and end with a totals table.
+  for (const block of stdout.split(/\r?\n\s*\r?\n/)) {
+    const fields: Record<string, string> = {};
+    for (const line of block.split(/\r?\n/)) {
+      const sep = line.indexOf(':');
+      if (sep > 0) {
+        fields[line.substring(0, sep).trim().toLowerCase()] = line.substring(sep + 1).trim();
+      }
+    }
+    if (!fields['id'] || !fields['size']) {
+      continue;
+    }
+    const type = fields['type'] || 'unknown';
+    const size = parseBytes(fields['size']);
+    usage[type] = usage[type] || {count: 0, size: 0, reclaimable: 0};
+    usage[type].count++;
+    usage[type].size += size;
+    if (fields['reclaimable'] == 'true') {
+      usage[type].reclaimable += size;
+    }
+  }
+  return usage;
+}
+
+export async function diskUsage(endpoint: string, driverOpts?: string[]): Promise<Record<string, DiskUsage>> {
+  const res = await execOrThrow('buildctl', [...buildctlArgs(endpoint, driverOpts), 'du', '--verbose']);
+  return parseDiskUsage(res.stdout);
+}
+
+export interface PruneOpts {
+  // Cache size to keep (eg. 10GB).
+  keepStorage?: string;
+  // Age of the cache records to keep (eg. 24h).
+  keepDuration?: string;
+  filters?: string[];
+}
+
+export function pruneArgs(opts: PruneOpts): string[] {
+  const args = ['prune', '--verbose'];
+  if (opts.keepStorage) {
+    // buildctl takes the storage limit in MB.
+    args.push('--keep-storage', `${Math.floor(parseBytes(opts.keepStorage) / 1000 ** 2)}`);
+  }
+  if (opts.keepDuration) {
+    args.push('--keep-duration', `${parseDuration(opts.keepDuration)}s`);
+  }
+  for (const filter of opts.filters || []) {
+    args.push('--filter', filter);
+  }
+  return args;
+}
+
+/*
+ * Prune the BuildKit cache
+ * @param endpoint: buildkitd endpoint
+ * @param driverOpts: driver options holding the client certificates
+ * @param opts: prune options
+ * @returns reclaimed bytes
+ */
+export async function prune(endpoint: string, driverOpts: string[], opts: PruneOpts): Promise<number> {
+  const res = await execOrThrow('buildctl', [...buildctlArgs(endpoint, driverOpts), ...pruneArgs(opts)]);
+  return Object.values(parseDiskUsage(res.stdout)).reduce((total, du) => total + du.size, 0);
+}
+
+/*
+ * Wait until buildkitd answers on its gRPC endpoint
+ * @param opts: wait options
+ * @throws if buildkitd exits or is not ready before the timeout, with the tail
+ * of the daemon log attached
+ */
+export async function waitReady(opts: WaitOpts): Promise<void> {
+  const timeout = opts.timeout ?? 30;
+  const deadline = Date.now() + timeout * 1000;
+  let lastError = '';
+  do {
+    if (!(await isRunning(opts.pid))) {
+      throw new Error(`buildkitd exited before becoming ready:\n${tailLog()}`);
+    }
+    const res = await Exec.getExecOutput('buildctl', [...buildctlArgs(opts.addr, opts.driverOpts), 'debug', 'workers'], {
+      ignoreReturnCode: true,
+      silent: true
+    });
+    if (res.exitCode == 0) {
+      core.info(`buildkitd is ready at ${opts.addr}`);
+      core.debug(res.stdout);
+      return;
+    }
+    lastError = res.stderr.match(/(.*)\s*$/)?.[0]?.trim() ?? 'unknown error';
+    core.debug(`buildkitd not ready yet: ${lastError}`);
+    await Util.sleep(opts.interval ?? 1);
+  } while (Date.now() < deadline);
+  throw new Error(`buildkitd is not ready after ${timeout}s (${lastError}):\n${tailLog()}`);
+}
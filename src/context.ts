@@ -1,4 +1,5 @@
 import * as uuid from 'uuid';
+import yaml from 'js-yaml';
 import * as core from '@actions/core';
 import { Docker } from '@docker/actions-toolkit/lib/docker/docker';
 import { Util } from '@docker/actions-toolkit/lib/util';
@@ -6,20 +7,58 @@ import { Toolkit } from '@docker/actions-toolkit/lib/toolkit';
 import { Node } from '@docker/actions-toolkit/lib/types/builder';
 
 export const builderNodeEnvPrefix = 'BUILDER_NODE';
+export const defaultBuildkitdFlags = '--allow-insecure-entitlement security.insecure --allow-insecure-entitlement network.host';
+
+// How the builder is set up: managed starts a local buildkitd used through
+// the remote driver, driver creates the builder from the driver inputs like
+// upstream setup-buildx-action and auto picks managed on runners providing
+// sticky disks.
+export const modes = ['managed', 'driver', 'auto'];
 
 export interface Inputs {
   version: string;
+  buildkitVersion: string;
+  buildkitSha256: string;
+  buildkitSkipVerify: boolean;
+  buildkitVersionRange: string;
+  mode: string;
   name: string;
   driver: string;
   driverOpts: string[];
   buildkitdFlags: string;
+  buildkitdEntitlements: string[];
+  buildkitdListen: string;
   buildkitdConfig: string;
   buildkitdConfigInline: string;
+  gcKeepPercentage: string;
+  gcReservedSpace: string;
+  gcKeepDuration: string;
+  gcFilters: string[];
+  registryMirrors: string[];
+  registryHttp: string[];
+  registryInsecure: string[];
+  registryCa: string[];
+  prune: boolean;
+  pruneKeepStorage: string;
+  pruneKeepDuration: string;
+  pruneFilters: string[];
+  diagnostics: string;
+  diagnosticsOutput: string;
   platforms: string[];
+  emulatePlatforms: string[];
+  binfmtImage: string;
   install: boolean;
   use: boolean;
   endpoint: string;
   append: string;
+  runnerPlatform: string;
+  stickyDiskTimeout: string;
+  stickyDiskRetryDelay: string;
+  stickyDiskDevice: string;
+  stickyDiskMountPoint: string;
+  stickyDiskFsType: string;
+  stickyDiskLabel: string;
+  stickyDiskIntegrityPolicy: string;
   cacheBinary: boolean;
   cleanup: boolean;
 }
@@ -27,22 +66,60 @@ export interface Inputs {
 export async function getInputs(): Promise<Inputs> {
   return {
     version: core.getInput('version'),
+    buildkitVersion: core.getInput('buildkit-version'),
+    buildkitSha256: core.getInput('buildkit-sha256'),
+    buildkitSkipVerify: Util.parseBool(core.getInput('buildkit-skip-verify') || 'false'),
+    buildkitVersionRange: core.getInput('buildkit-version-range'),
+    mode: core.getInput('mode') || 'managed',
     name: await getBuilderName(core.getInput('driver') || 'docker-container'),
     driver: core.getInput('driver') || 'docker-container',
     driverOpts: Util.getInputList('driver-opts', { ignoreComma: true, quote: false }),
-    buildkitdFlags: core.getInput('buildkitd-flags') || '--allow-insecure-entitlement security.insecure --allow-insecure-entitlement network.host',
+    buildkitdFlags: core.getInput('buildkitd-flags'),
+    buildkitdEntitlements: Util.getInputList('buildkitd-entitlements'),
+    buildkitdListen: core.getInput('buildkitd-listen') || 'unix',
     platforms: Util.getInputList('platforms'),
+    emulatePlatforms: Util.getInputList('emulate-platforms'),
+    binfmtImage: core.getInput('binfmt-image') || 'tonistiigi/binfmt:latest',
     install: core.getBooleanInput('install'),
     use: core.getBooleanInput('use'),
     endpoint: core.getInput('endpoint'),
     buildkitdConfig: core.getInput('buildkitd-config') || core.getInput('config'),
     buildkitdConfigInline: core.getInput('buildkitd-config-inline') || core.getInput('config-inline'),
+    gcKeepPercentage: core.getInput('gc-keep-percentage') || '80',
+    gcReservedSpace: core.getInput('gc-reserved-space') || '2GB',
+    gcKeepDuration: core.getInput('gc-keep-duration') || '48h',
+    gcFilters: Util.getInputList('gc-filters', {ignoreComma: true}),
+    registryMirrors: Util.getInputList('registry-mirrors'),
+    registryHttp: Util.getInputList('registry-http'),
+    registryInsecure: Util.getInputList('registry-insecure'),
+    registryCa: Util.getInputList('registry-ca'),
+    prune: Util.parseBool(core.getInput('prune') || 'false'),
+    pruneKeepStorage: core.getInput('prune-keep-storage'),
+    pruneKeepDuration: core.getInput('prune-keep-duration'),
+    pruneFilters: Util.getInputList('prune-filters', {ignoreComma: true}),
+    diagnostics: core.getInput('diagnostics') || 'auto',
+    diagnosticsOutput: core.getInput('diagnostics-output') || 'artifact',
     append: core.getInput('append'),
+    runnerPlatform: core.getInput('runner-platform') || 'auto',
+    stickyDiskTimeout: core.getInput('sticky-disk-timeout') || '30s',
+    stickyDiskRetryDelay: core.getInput('sticky-disk-retry-delay') || '1s',
+    stickyDiskDevice: core.getInput('sticky-disk-device') || '/dev/vdb',
+    stickyDiskMountPoint: core.getInput('sticky-disk-mount-point') || '/var/lib/buildkit',
+    stickyDiskFsType: core.getInput('sticky-disk-fs-type') || 'ext4',
+    stickyDiskLabel: core.getInput('sticky-disk-label'),
+    stickyDiskIntegrityPolicy: core.getInput('sticky-disk-integrity-policy') || 'repair',
     cacheBinary: core.getBooleanInput('cache-binary'),
     cleanup: core.getBooleanInput('cleanup')
   };
 }
 
+export function isManaged(mode: string, stickyDisks: boolean): boolean {
+  if (!modes.includes(mode)) {
+    throw new Error(`Invalid mode "${mode}", expected ${modes.join(', ')}`);
+  }
+  return mode == 'managed' || (mode == 'auto' && stickyDisks);
+}
+
 export async function getBuilderName(driver: string): Promise<string> {
   return driver == 'docker' ? await Docker.context() : `builder-${uuid.v4()}`;
 }
@@ -53,8 +130,8 @@ export async function getCreateArgs(inputs: Inputs, toolkit: Toolkit): Promise<A
     await Util.asyncForEach(inputs.driverOpts, async driverOpt => {
       args.push('--driver-opt', driverOpt);
     });
-    if (driverSupportsFlags(inputs.driver) && inputs.buildkitdFlags) {
-      args.push('--buildkitd-flags', inputs.buildkitdFlags);
+    if (driverSupportsFlags(inputs.driver)) {
+      args.push('--buildkitd-flags', inputs.buildkitdFlags || defaultBuildkitdFlags);
     }
   }
   if (inputs.platforms.length > 0) {
@@ -100,6 +177,32 @@ export async function getAppendArgs(inputs: Inputs, node: Node, toolkit: Toolkit
   return args;
 }
 
+/*
+ * Parse the nodes to append to the builder from the append input
+ * @param append: YAML list of nodes
+ * @param driver: builder driver, remote nodes need an endpoint
+ */
+export function getAppendNodes(append: string, driver: string): Array<Node> {
+  if (!append) {
+    return [];
+  }
+  let nodes: unknown;
+  try {
+    nodes = yaml.load(append);
+  } catch (e) {
+    throw new Error(`Invalid append input: ${e.message}`);
+  }
+  if (!Array.isArray(nodes)) {
+    throw new Error('Invalid append input: expected a list of nodes');
+  }
+  nodes.forEach((node: Node, i: number) => {
+    if (driver == 'remote' && !node.endpoint) {
+      throw new Error(`Invalid append input: node ${node.name || i + 1} has no endpoint`);
+    }
+  });
+  return nodes as Array<Node>;
+}
+
 export async function getInspectArgs(inputs: Inputs, toolkit: Toolkit): Promise<Array<string>> {
   const args: Array<string> = ['inspect', '--bootstrap'];
   if (await toolkit.buildx.versionSatisfies('>=0.4.0')) {
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import * as core from '@actions/core';
+import {Buildx} from '@docker/actions-toolkit/lib/buildx/buildx';
+import {Context} from '@docker/actions-toolkit/lib/context';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+import {GitHub} from '@docker/actions-toolkit/lib/github';
+
+import * as buildkitd from './buildkitd';
+
+// When diagnostics are collected in post step: auto only collects them if the
+// setup failed or buildkitd is not running anymore.
+export const modes = ['auto', 'always', 'never'];
+
+// Where diagnostics go: uploaded as an artifact, or printed to the log.
+export const outputs = ['artifact', 'log'];
+
+export interface Diagnostic {
+  name: string;
+  content: string;
+}
+
+export interface CollectOpts {
+  builderName?: string;
+  standalone?: boolean;
+  configFile?: string;
+  endpoint?: string;
+  driverOpts?: string[];
+}
+
+export function shouldCollect(mode: string, failed: boolean): boolean {
+  if (!modes.includes(mode)) {
+    throw new Error(`Invalid diagnostics "${mode}", expected ${modes.join(', ')}`);
+  }
+  return mode == 'always' || (mode == 'auto' && failed);
+}
+
+async function commandOutput(command: string, args: string[]): Promise<string> {
+  const res = await Exec.getExecOutput(command, args, {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  return `$ ${command} ${args.join(' ')}\n${res.stdout}${res.stderr}${res.exitCode != 0 ? `\nexited with code ${res.exitCode}\n` : ''}`;
+}
+
+function readFile(file: string): string {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch (e) {
+    return `cannot read ${file}: ${e.message}\n`;
+  }
+}
+
+/*
+ * Collect the buildkitd log, its generated config, the builder inspect output
+ * and the workers seen by buildkitd
+ * @param opts: what to collect, missing parts are skipped
+ */
+export async function collect(opts: CollectOpts): Promise<Array<Diagnostic>> {
+  const diagnostics: Array<Diagnostic> = [{name: buildkitd.logFile, content: readFile(buildkitd.logFile)}];
+  if (opts.configFile) {
+    diagnostics.push({name: 'buildkitd.toml', content: readFile(opts.configFile)});
+  }
+  if (opts.builderName) {
+    const buildx = new Buildx({standalone: opts.standalone});
+    const cmd = await buildx.getCommand(['inspect', opts.builderName]);
+    diagnostics.push({name: 'buildx-inspect.txt', content: await commandOutput(cmd.command, cmd.args)});
+  }
+  if (opts.endpoint) {
+    diagnostics.push({name: 'buildctl-debug-workers.txt', content: await commandOutput('buildctl', [...buildkitd.buildctlArgs(opts.endpoint, opts.driverOpts), 'debug', 'workers', '--verbose'])});
+  }
+  return diagnostics;
+}
+
+export async function print(diagnostics: Array<Diagnostic>): Promise<void> {
+  for (const diagnostic of diagnostics) {
+    await core.group(`Diagnostics: ${diagnostic.name}`, async () => {
+      core.info(diagnostic.content);
+    });
+  }
+}
+
+/*
+ * Upload the diagnostics as a tarball artifact
+ * @param diagnostics: collected diagnostics
+ * @param name: artifact name, without extension
+ * @returns artifact URL
+ */
+export async function upload(diagnostics: Array<Diagnostic>, name: string): Promise<string> {
+  const dir = fs.mkdtempSync(path.join(Context.tmpDir(), 'diagnostics-'));
+  try {
+    const srcDir = path.join(dir, name);
+    fs.mkdirSync(srcDir);
+    for (const diagnostic of diagnostics) {
+      fs.writeFileSync(path.join(srcDir, diagnostic.name), diagnostic.content);
+    }
+    const filename = path.join(dir, `${name}.tar.gz`);
+    const res = await Exec.getExecOutput('tar', ['-czf', filename, '-C', dir, name], {
+      ignoreReturnCode: true,
+      silent: true
+    });
+    if (res.exitCode != 0) {
+      throw new Error(`Failed to create ${path.basename(filename)}: ${res.stderr.trim()}`);
+    }
+    const artifact = await GitHub.uploadArtifact({
+      filename: filename,
+      mimeType: 'application/gzip',
+      retentionDays: 7
+    });
+    return artifact.url;
+  } finally {
+    fs.rmSync(dir, {recursive: true, force: true});
+  }
+}
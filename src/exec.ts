@@ -0,0 +1,16 @@
+import {ExecOutput} from '@actions/exec';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+
+// Runs a command silently and throws with the last line of stderr if it
+// exits with a non-zero code.
+export async function execOrThrow(command: string, args: string[]): Promise<ExecOutput> {
+  return await Exec.getExecOutput(command, args, {
+    ignoreReturnCode: true,
+    silent: true
+  }).then(res => {
+    if (res.exitCode != 0) {
+      throw new Error(res.stderr.match(/(.*)\s*$/)?.[0]?.trim() || `${command} exited with code ${res.exitCode}`);
+    }
+    return res;
+  });
+}
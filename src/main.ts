@@ -1,4 +1,5 @@
 import * as fs from 'fs';
+import * as path from 'path';
 import * as core from '@actions/core';
 import * as actionsToolkit from '@docker/actions-toolkit';
 import { Buildx } from '@docker/actions-toolkit/lib/buildx/buildx';
@@ -11,173 +12,134 @@ import { promisify } from 'util';
 import { exec } from 'child_process';
 import portfinder from 'portfinder';
 import * as TOML from '@iarna/toml';
-import axios from 'axios';
-
+import {SummaryTableRow} from '@actions/core/lib/summary';
 
+import * as binfmt from './binfmt';
+import * as buildkit from './buildkit';
+import * as buildkitd from './buildkitd';
 import * as context from './context';
+import * as diagnostics from './diagnostics';
+import * as platform from './platform';
 import * as stateHelper from './state-helper';
+import * as stickydisk from './stickydisk';
 import { get } from 'http';
 
 const supportedDockerDriver = 'remote';
-const mountPoint = '/var/lib/buildkit';
-const device = '/dev/vdb';
-const mmdsIPv4Addr = "169.254.169.254";
 
 
 const execAsync = promisify(exec);
 
-function getEnvVar(name: string): string {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(`Environment variable ${name} is not set.`);
+async function writeSummary(heading: string, tables: Array<Array<SummaryTableRow>>): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    return;
   }
-  return value;
-}
-
-function sendLoadStickyDisksRequest() {
   try {
-    const port = getEnvVar('VSOCK_PORT');
-    const command = `echo "load" | socat -t=15 - VSOCK-CONNECT:2:${port}`;
-
-    exec(command, (error, stdout, stderr) => {
-      if (error) {
-        core.error(`Error executing command: ${error.message}`);
-        return;
-      }
-      if (stderr) {
-        core.error(`stderr: ${stderr}`);
-        return;
-      }
-      core.debug(`stdout: ${stdout}`);
-    });
+    core.summary.addHeading(heading, 3);
+    for (const table of tables.filter(table => table.length > 0)) {
+      core.summary.addTable(table);
+    }
+    await core.summary.write();
   } catch (error) {
-    throw error;
+    core.debug(`error writing job summary: ${error.message}`);
   }
 }
 
-async function getMetadata(endpoint: string): Promise<string> {
-  try {
-    const putTokenResponse = await axios.put(`http://${mmdsIPv4Addr}/latest/api/token`, null, {
-      headers: {
-        "X-metadata-token-ttl-seconds": "21600"
-      }
-    });
-    const token = putTokenResponse.data;
-    const getResponse = await axios.get(`http://${mmdsIPv4Addr}/${endpoint}`, {
-      headers: {
-        "X-metadata-token": token
-      }
-    });
-    const responseData = typeof getResponse.data === 'string' ? getResponse.data : JSON.stringify(getResponse.data);
-    return responseData;
-  } catch (error) {
-    core.debug(`error fetching metadata: ${error}`);
-    throw error;
-  }
+function setStickyDiskStatsOutputs(stats: stickydisk.DiskStats) {
+  core.setOutput('sticky-disk-size', stats.size);
+  core.setOutput('sticky-disk-used', stats.used);
+  core.setOutput('sticky-disk-free', stats.free);
+  core.setOutput('sticky-disk-empty', stats.empty);
 }
 
-async function retryCommand(sleepTime: number, command: () => Promise<string>): Promise<string> {
-  let retryAttempts = 0;
-  while (true) {
-    if (retryAttempts > 10) {
-      throw new Error('Maximum number of retries exceeded');
-    }
-    try {
-      const result = await command();
-      if (result && !result.includes("Resource not found")) {
-        core.debug(`Command result: ${result}`);
-        return result;
-      }
-    } catch (error) {
-      core.debug(`Command failed: ${error}`);
-    }
-    await new Promise(resolve => setTimeout(resolve, sleepTime * 1000));
-    retryAttempts++;
+// @param initialized: whether the sticky disk has been formatted in this job
+function statsTable(stats: stickydisk.DiskStats | undefined, initialized: boolean): Array<SummaryTableRow> {
+  if (!stats) {
+    return [];
   }
+  return [
+    [
+      {data: 'Size', header: true},
+      {data: 'Used', header: true},
+      {data: 'Free', header: true},
+      {data: 'Cache', header: true}
+    ],
+    [buildkitd.formatBytes(stats.size), buildkitd.formatBytes(stats.used), buildkitd.formatBytes(stats.free), `${stats.empty ? 'empty' : 'warm'}${initialized ? ' (new disk)' : ''}`]
+  ];
 }
 
-async function checkBlockDevice(device: string): Promise<boolean> {
-  try {
-    await execAsync(`lsblk ${device}`);
-    return true;
-  } catch (error) {
-    return false;
+function diskUsageTable(usage: Record<string, buildkitd.DiskUsage>): Array<SummaryTableRow> {
+  const rows: Array<SummaryTableRow> = [
+    [
+      {data: 'Record type', header: true},
+      {data: 'Records', header: true},
+      {data: 'Size', header: true},
+      {data: 'Reclaimable', header: true}
+    ]
+  ];
+  const total: buildkitd.DiskUsage = {count: 0, size: 0, reclaimable: 0};
+  for (const [type, du] of Object.entries(usage).sort((a, b) => b[1].size - a[1].size)) {
+    rows.push([type, `${du.count}`, buildkitd.formatBytes(du.size), buildkitd.formatBytes(du.reclaimable)]);
+    total.count += du.count;
+    total.size += du.size;
+    total.reclaimable += du.reclaimable;
   }
+  rows.push([{data: 'Total', header: true}, `${total.count}`, buildkitd.formatBytes(total.size), buildkitd.formatBytes(total.reclaimable)]);
+  return rows;
 }
 
-// Function to gracefully shut down the buildkitd process
-async function shutdownBuildkitd(): Promise<void> {
-  try {
-    await execAsync(`sudo pkill -TERM buildkitd`);
-  } catch (error) {
-    core.error('error shutting down buildkitd process:', error);
-    throw error;
+async function postDiagnostics(): Promise<void> {
+  const collected = await diagnostics.collect({
+    builderName: stateHelper.builderName,
+    standalone: stateHelper.standalone,
+    configFile: stateHelper.buildkitdConfig,
+    endpoint: stateHelper.buildkitdEndpoint,
+    driverOpts: stateHelper.buildkitdDriverOpts
+  });
+  if (stateHelper.diagnosticsOutput == 'artifact') {
+    try {
+      const url = await diagnostics.upload(collected, `buildkitd-diagnostics-${stateHelper.builderName || process.env.GITHUB_JOB || 'setup'}`);
+      core.info(`Diagnostics uploaded to ${url}`);
+      return;
+    } catch (e) {
+      core.warning(`Failed to upload diagnostics, printing them instead: ${e.message}`);
+    }
   }
+  await diagnostics.print(collected);
 }
 
-async function installBuildkitd() {
-  try {
-    let downloadUrl = '';
-    let tarFile = '';
-
-    downloadUrl = 'https://github.com/moby/buildkit/releases/download/v0.13.2/buildkit-v0.13.2.linux-amd64.tar.gz';
-    tarFile = 'buildkit-v0.13.2.linux-amd64.tar.gz';
-
-    await execAsync(`sudo wget ${downloadUrl}`);
-    await execAsync(`sudo tar -xvf ${tarFile}`);
-    await execAsync(`sudo mv bin/* /usr/local/bin/`);
-
-    core.debug('buildKit installed successfully');
-  } catch (error) {
-    core.error('error installing BuildKit:', error);
-    throw error;
-  }
-}
+async function writeBuildkitdTomlFile(inputs: context.Inputs): Promise<string> {
+  const space = buildkitd.getFilesystemSpace(inputs.stickyDiskMountPoint);
+  const cacheUsage = await buildkitd.getCacheUsage(inputs.stickyDiskMountPoint, space);
+  core.info(`filesystem capacity is ${space.capacity}, ${space.free} free, ${cacheUsage} used by the cache`);
+  const jsonConfig = buildkitd.getGCConfig(space, cacheUsage, {
+    keepPercentage: inputs.gcKeepPercentage,
+    reservedSpace: inputs.gcReservedSpace,
+    keepDuration: inputs.gcKeepDuration,
+    filters: inputs.gcFilters
+  });
 
-async function getDiskSize(device: string): Promise<number> {
-  try {
-    const { stdout } = await execAsync(`sudo lsblk -b -n -o SIZE ${device}`);
-    const sizeInBytes = parseInt(stdout.trim(), 10);
-    if (isNaN(sizeInBytes)) {
-      throw new Error('Failed to parse disk size');
-    }
-    return sizeInBytes;
-  } catch (error) {
-    console.error(`Error getting disk size: ${error.message}`);
-    throw error;
+  const registryConfig = buildkitd.getRegistryConfig(
+    {
+      mirrors: inputs.registryMirrors,
+      http: inputs.registryHttp,
+      insecure: inputs.registryInsecure,
+      ca: inputs.registryCa
+    },
+    path.join(Buildx.certsDir, 'registry')
+  );
+  if (registryConfig.registry) {
+    stateHelper.setCertsDir(Buildx.certsDir);
   }
-}
-
-async function writeBuildkitdTomlFile(): Promise<void> {
-  const diskSize = await getDiskSize(device);
-  core.info(`disk size is ${diskSize}`);
-  const jsonConfig: TOML.JsonMap = {
-    worker: {
-      oci: {
-        enabled: true,
-        gc: true,
-        gckeepstorage: diskSize,
-        gcpolicy: [
-          {
-            keepBytes: diskSize,
-            keepDuration: 172800,
-          },
-          {
-            all: true,
-            keepBytes: diskSize
-          }
-        ]
-      }
-    }
-  };
+  const generatedConfig = buildkitd.mergeConfig(jsonConfig, registryConfig);
 
-  const tomlString = TOML.stringify(jsonConfig);
+  const userConfig = buildkitd.parseUserConfig(inputs.buildkitdConfig, inputs.buildkitdConfigInline);
+  const config = userConfig ? buildkitd.mergeConfig(generatedConfig, userConfig) : generatedConfig;
 
   try {
-    await execAsync(`sudo touch buildkitd.toml`);
-    await execAsync(`sudo chmod 666 buildkitd.toml`);
-    await execAsync(`echo "${tomlString}" > buildkitd.toml`);
-    core.debug(`TOML configuration is ${tomlString}`);
+    const configFile = buildkitd.writeConfig(config);
+    stateHelper.setBuildkitdConfig(configFile);
+    core.debug(`TOML configuration is ${TOML.stringify(config)}`);
+    return configFile;
   } catch (err) {
     core.warning('error writing TOML configuration:', err);
     throw err;
@@ -185,24 +147,27 @@ async function writeBuildkitdTomlFile(): Promise<void> {
 }
 
 
-async function startBuildkitd(port: number): Promise<string> {
+async function startBuildkitd(inputs: context.Inputs, port: number, flags: string): Promise<{listener: buildkitd.Listener; pid: number; configFile: string}> {
   try {
-    await writeBuildkitdTomlFile();
-    const addr = `tcp://0.0.0.0:${port}`;
-    const { stdout: startStdout, stderr: startStderr } = await execAsync(
-      `sudo nohup buildkitd --addr ${addr} --allow-insecure-entitlement security.insecure --config=buildkitd.toml --allow-insecure-entitlement network.host > buildkitd.log 2>&1 &`,
+    const configFile = await writeBuildkitdTomlFile(inputs);
+    const listener = await buildkitd.getListener(inputs.buildkitdListen, port, path.join(path.dirname(configFile), 'tls'));
+    // The root shell backgrounds buildkitd itself and prints its pid, so that
+    // post step stops this very process rather than any buildkitd.
+    const {stdout: startStdout, stderr: startStderr} = await execAsync(
+      `sudo sh -c 'nohup "$@" > "$0" 2>&1 & echo $!' ${buildkitd.logFile} buildkitd --addr ${listener.addr} ${listener.flags.join(' ')} --root ${inputs.stickyDiskMountPoint} --config=${configFile} ${flags}`
     );
 
     if (startStderr) {
       throw new Error(`error starting buildkitd service: ${startStderr}`);
     }
-    core.debug(`buildkitd daemon started successfully ${startStdout}`);
-
-    const { stdout, stderr } = await execAsync(`pgrep -f buildkitd`);
-    if (stderr) {
-      throw new Error(`error finding buildkitd PID: ${stderr}`);
+    const pid = parseInt(startStdout.trim(), 10);
+    if (isNaN(pid)) {
+      throw new Error(`error starting buildkitd service: unexpected pid "${startStdout.trim()}"`);
     }
-    return addr;
+    core.debug(`buildkitd daemon started successfully with pid ${pid}`);
+
+    await buildkitd.waitReady({addr: listener.endpoint, driverOpts: listener.driverOpts, pid: pid});
+    return {listener, pid, configFile};
   } catch (error) {
     core.error('failed to start buildkitd daemon:', error);
     throw error;
@@ -225,44 +190,268 @@ async function findPort(): Promise<number> {
 }
 
 
-actionsToolkit.run(
-  // main
-  async () => {
-    let isStickyDisksEnabled = false;
-    const sleepTime = 1; // seconds of retries
-    try {
-      sendLoadStickyDisksRequest();
-      const stickyDiskIsLoaded = await retryCommand(sleepTime, () => getMetadata('sticky_disk_loaded'));
-      if (stickyDiskIsLoaded == "true") {
-        isStickyDisksEnabled = true;
+// Register the QEMU emulators missing for emulate-platforms. buildkitd detects
+// them when listing its workers.
+async function setupEmulators(inputs: context.Inputs): Promise<void> {
+  await core.group(`Setting up QEMU emulation`, async () => {
+    const archs = binfmt.missing(inputs.emulatePlatforms, binfmt.registered());
+    if (archs.length == 0) {
+      core.info(`QEMU emulators already registered for ${inputs.emulatePlatforms.join(', ')}`);
+      return;
+    }
+    await binfmt.install(archs, inputs.binfmtImage);
+  });
+}
+
+// Point the builder at the managed buildkitd with the remote driver, and keep
+// what post step needs to release it.
+async function useManagedBuildkitd(inputs: context.Inputs, endpoint: string, driverOpts: string[]): Promise<void> {
+  if (inputs.emulatePlatforms.length > 0) {
+    await core.group(`Verifying emulated platforms`, async () => {
+      const platforms = await binfmt.verify(endpoint, driverOpts, inputs.emulatePlatforms);
+      core.info(`buildkitd workers support ${platforms.join(', ')}`);
+    });
+  }
+  inputs.endpoint = endpoint;
+  inputs.driver = supportedDockerDriver;
+  inputs.driverOpts = driverOpts;
+  stateHelper.setBuildkitdEndpoint(endpoint);
+  if (inputs.prune) {
+    const pruneOpts: buildkitd.PruneOpts = {
+      keepStorage: inputs.pruneKeepStorage,
+      keepDuration: inputs.pruneKeepDuration,
+      filters: inputs.pruneFilters
+    };
+    // Fail early on invalid prune inputs rather than in post step.
+    buildkitd.pruneArgs(pruneOpts);
+    stateHelper.setPrune(JSON.stringify(pruneOpts));
+  }
+  stateHelper.setBuildkitdDriverOpts(driverOpts);
+}
+
+// Use the buildkitd started by a previous setup step of the job. Its sticky
+// disk is already mounted, and a second daemon on the same root would corrupt
+// the store.
+// @returns flags buildkitd has been started with
+async function reuseManagedBuildkitd(inputs: context.Inputs, daemon: buildkitd.Daemon): Promise<string> {
+  stateHelper.setBuildkitdPid(daemon.pid);
+  core.info(`Reusing buildkitd (pid ${daemon.pid}) started by a previous setup step at ${daemon.endpoint}, now used by ${daemon.refs} setup steps`);
+  if (inputs.buildkitdFlags || inputs.buildkitdEntitlements.length > 0 || inputs.buildkitdConfig || inputs.buildkitdConfigInline) {
+    core.warning('buildkitd inputs are ignored when reusing the buildkitd of a previous setup step');
+  }
+  core.setOutput('sticky-disk', daemon.stickyDisk);
+  // Whichever setup step releases the daemon last removes its config.
+  stateHelper.setBuildkitdConfig(daemon.configFile);
+  // Whichever setup step releases the daemon last commits the sticky disk.
+  if (daemon.stickyDiskDevice) {
+    stateHelper.setStickyDisksEnabled('true');
+    stateHelper.setStickyDiskDevice(daemon.stickyDiskDevice);
+    stateHelper.setStickyDiskMountPoint(daemon.stickyDiskMountPoint);
+  }
+  if (inputs.emulatePlatforms.length > 0) {
+    await setupEmulators(inputs);
+  }
+  await useManagedBuildkitd(inputs, daemon.endpoint, daemon.driverOpts);
+  return daemon.flags;
+}
+
+// Set up the sticky disk and start the managed buildkitd, then point the
+// builder at it with the remote driver. A buildkitd already started by a
+// previous setup step of the job is reused instead.
+// @returns flags buildkitd has been started with
+async function setupManagedBuildkitd(inputs: context.Inputs): Promise<string> {
+  const daemonFile = buildkitd.daemonFile();
+  const daemon = await buildkitd.acquireDaemon(daemonFile);
+  if (daemon) {
+    return reuseManagedBuildkitd(inputs, daemon);
+  }
+  let isStickyDisksEnabled = false;
+  // Outcome of the sticky disk setup, reported in the sticky-disk output.
+  let stickyDiskStatus = 'unsupported';
+  let loadResponse = '';
+  let stickyDiskStats: stickydisk.DiskStats | undefined;
+  let stickyDiskDevice = '';
+  let stickyDiskInitialized = false;
+  try {
+    const runnerPlatform = platform.getPlatform(inputs.runnerPlatform);
+    core.debug(`runner platform: ${runnerPlatform.name}`);
+    if (runnerPlatform.stickyDisks) {
+      const timeout = buildkitd.parseDuration(inputs.stickyDiskTimeout);
+      loadResponse = await runnerPlatform.loadStickyDisks(timeout);
+      core.info(`sticky disks load request acknowledged${loadResponse ? `: ${loadResponse}` : ''}`);
+      stickyDiskStatus = await platform.waitStickyDisksLoaded(runnerPlatform, {
+        delay: buildkitd.parseDuration(inputs.stickyDiskRetryDelay),
+        deadline: timeout
+      });
+      isStickyDisksEnabled = stickyDiskStatus == 'loaded';
+    }
+  } catch (error) {
+    stickyDiskStatus = error instanceof platform.LoadError ? error.reason : 'failed';
+    core.warning(`error loading sticky disks: ${error.message}`);
+    // Carry on regardless of sticky disks error.
+  }
+  try {
+    if (isStickyDisksEnabled) {
+      const device = await stickydisk.resolveDevice(inputs.stickyDiskDevice);
+      const mountPoint = inputs.stickyDiskMountPoint;
+      if (!device) {
+        stickyDiskStatus = 'not-found';
+      } else {
+        stickyDiskInitialized = await stickydisk.initialize(device, inputs.stickyDiskFsType, inputs.stickyDiskLabel);
+        stateHelper.setStickyDiskInitialized(stickyDiskInitialized);
+        const integrity = await stickydisk.mount(device, mountPoint, inputs.stickyDiskIntegrityPolicy, inputs.stickyDiskLabel);
+        stateHelper.setStickyDisksEnabled('true');
+        stateHelper.setStickyDiskDevice(device);
+        stateHelper.setStickyDiskMountPoint(mountPoint);
+        stickyDiskStatus = 'mounted';
+        stickyDiskDevice = device;
+        core.setOutput('sticky-disk-integrity', integrity);
+        core.debug(`${device} has been mounted to ${mountPoint} (${integrity})`);
+        try {
+          stickyDiskStats = await stickydisk.getStats(mountPoint);
+          setStickyDiskStatsOutputs(stickyDiskStats);
+          core.info(`sticky disk cache is ${stickyDiskStats.empty ? 'empty' : 'warm'}, ${buildkitd.formatBytes(stickyDiskStats.used)} used of ${buildkitd.formatBytes(stickyDiskStats.size)}`);
+        } catch (error) {
+          // The disk is mounted and will be committed regardless.
+          core.warning(`error getting sticky disk stats: ${error.message}`);
+        }
       }
-    } catch (error) {
-      core.warning(`error fetching sticky disks metadata: ${error}`);
-      // Carry on regardless of sticky disks error.
     }
+  } catch (error) {
+    if (error instanceof stickydisk.IntegrityError) {
+      core.setOutput('sticky-disk-integrity', 'corrupted');
+      core.setOutput('sticky-disk', 'corrupted');
+      throw error;
+    }
+    stickyDiskStatus = 'failed';
+    core.warning(`error setting up sticky disks: ${error.message}`);
+    // Carry on regardless of sticky disks error.
+  }
+  core.setOutput('sticky-disk', stickyDiskStatus);
+  await writeSummary('Sticky disk', [
+    [
+      [
+        {data: 'Status', header: true},
+        {data: 'Load request', header: true}
+      ],
+      [stickyDiskStatus, loadResponse || '-']
+    ],
+    statsTable(stickyDiskStats, stickyDiskInitialized)
+  ]);
+  // Emulators are registered before starting buildkitd, which detects them
+  // when listing its workers.
+  if (inputs.emulatePlatforms.length > 0) {
+    await setupEmulators(inputs);
+  }
+  // Start the buildkitd daemon.
+  const port = await findPort();
+  await core.group(`Install BuildKit`, async () => {
+    await buildkit.install({
+      version: inputs.buildkitVersion || 'latest',
+      sha256: inputs.buildkitSha256,
+      skipVerify: inputs.buildkitSkipVerify,
+      ghaNoCache: !inputs.cacheBinary,
+      versionRange: inputs.buildkitVersionRange
+    });
+  });
+  core.debug('starting buildkitd daemon');
+  const buildkitdFlags = buildkitd.getFlags(inputs.buildkitdEntitlements, inputs.buildkitdFlags);
+  core.info(`buildkitd flags: ${buildkitdFlags}`);
+  const {listener, pid, configFile} = await startBuildkitd(inputs, port, buildkitdFlags);
+  core.debug(`buildkitd daemon started at addr ${listener.addr}`);
+  buildkitd.registerDaemon(daemonFile, {
+    pid: pid,
+    endpoint: listener.endpoint,
+    driverOpts: listener.driverOpts,
+    flags: buildkitdFlags,
+    configFile: configFile,
+    stickyDisk: stickyDiskStatus,
+    stickyDiskDevice: stickyDiskDevice,
+    stickyDiskMountPoint: inputs.stickyDiskMountPoint
+  });
+  stateHelper.setBuildkitdPid(pid);
+  await useManagedBuildkitd(inputs, listener.endpoint, listener.driverOpts);
+  return buildkitdFlags;
+}
+
+/*
+ * Drop the reference this setup step holds on the managed buildkitd. The last
+ * setup step using it stops it and, if sticky disks are enabled, prunes the
+ * cache and unmounts the mount point. The commit marker is only written if
+ * buildkitd stopped and the disk was cleanly unmounted.
+ * @returns number of setup steps still using buildkitd
+ */
+async function releaseManagedBuildkitd(): Promise<number> {
+  const users = buildkitd.releaseDaemon(buildkitd.daemonFile(), stateHelper.buildkitdPid);
+  if (users > 0) {
+    core.info(`buildkitd (pid ${stateHelper.buildkitdPid}) is still used by ${users} other setup step(s), leaving it running`);
+    return users;
+  }
+  if (!stateHelper.isStickyDisksEnabled) {
+    await core.group(`Stopping buildkitd`, async () => {
+      try {
+        await buildkitd.shutdown(stateHelper.buildkitdPid);
+      } catch (error) {
+        core.error(`error stopping buildkitd: ${error.message}`);
+      }
+    });
+    return 0;
+  }
+  await core.group(`Committing sticky disk`, async () => {
     try {
-      let blockDeviceIsPresent = await checkBlockDevice(device);
-      if (isStickyDisksEnabled && blockDeviceIsPresent) {
-        stateHelper.setStickyDisksEnabled('true');
-        await execAsync(`sudo mkdir -p ${mountPoint}`);
-        await execAsync(`sudo mount ${device} ${mountPoint}`);
-        core.debug(`${device} has been mounted to ${mountPoint}`);
+      if (stateHelper.prune.length > 0) {
+        try {
+          const reclaimed = await buildkitd.prune(stateHelper.buildkitdEndpoint, stateHelper.buildkitdDriverOpts, JSON.parse(stateHelper.prune));
+          core.info(`Pruned BuildKit cache, reclaimed ${buildkitd.formatBytes(reclaimed)} (${reclaimed} bytes)`);
+        } catch (error) {
+          core.warning(`error pruning BuildKit cache: ${error.message}`);
+        }
+      }
+      let usage: Record<string, buildkitd.DiskUsage> | undefined;
+      try {
+        usage = await buildkitd.diskUsage(stateHelper.buildkitdEndpoint, stateHelper.buildkitdDriverOpts);
+      } catch (error) {
+        core.warning(`error getting BuildKit disk usage: ${error.message}`);
       }
+      await buildkitd.shutdown(stateHelper.buildkitdPid);
+      await stickydisk.sync();
+      let stats: stickydisk.DiskStats | undefined;
+      try {
+        stats = await stickydisk.getStats(stateHelper.stickyDiskMountPoint);
+      } catch (error) {
+        core.warning(`error getting sticky disk stats: ${error.message}`);
+      }
+      await stickydisk.unmount(stateHelper.stickyDiskMountPoint);
+      await stickydisk.commit();
+      core.debug(`${stateHelper.stickyDiskDevice} has been committed`);
+      await writeSummary('Sticky disk after build', [statsTable(stats, stateHelper.stickyDiskInitialized), usage ? diskUsageTable(usage) : []]);
     } catch (error) {
-      core.warning('error setting up sticky disks:', error.message);
-      // Carry on regardless of sticky disks error.
+      core.error(`error cleaning up sticky disks: ${error.message}`);
     }
-    // Start the buildkitd daemon.
-    var port = await findPort();
-    await installBuildkitd();
-    core.debug('starting buildkitd daemon');
-    var buildkitdAddr = await startBuildkitd(port);
-    core.debug(`buildkitd daemon started at addr ${buildkitdAddr}`);
+  });
+  return 0;
+}
 
+actionsToolkit.run(
+  // main
+  async () => {
     const inputs: context.Inputs = await context.getInputs();
-    // Override inputs.driver to the only supported driver.
-    inputs.endpoint = buildkitdAddr;
-    inputs.driver = supportedDockerDriver;
+    diagnostics.shouldCollect(inputs.diagnostics, false);
+    if (!diagnostics.outputs.includes(inputs.diagnosticsOutput)) {
+      throw new Error(`Invalid diagnostics-output "${inputs.diagnosticsOutput}", expected ${diagnostics.outputs.join(', ')}`);
+    }
+    stateHelper.setDiagnostics(inputs.diagnostics);
+    stateHelper.setDiagnosticsOutput(inputs.diagnosticsOutput);
+
+    let buildkitdFlags = inputs.buildkitdFlags || context.defaultBuildkitdFlags;
+    if (context.isManaged(inputs.mode, platform.getPlatform(inputs.runnerPlatform).stickyDisks)) {
+      if (inputs.driver != 'docker-container' || inputs.endpoint || inputs.driverOpts.length > 0) {
+        core.warning('driver, driver-opts and endpoint inputs are ignored in managed mode');
+      }
+      buildkitdFlags = await setupManagedBuildkitd(inputs);
+    } else if (inputs.emulatePlatforms.length > 0) {
+      core.warning('emulate-platforms input is ignored in driver mode');
+    }
     stateHelper.setCleanup(inputs.cleanup);
 
     const toolkit = new Toolkit();
@@ -314,6 +503,14 @@ actionsToolkit.run(
 
     if (inputs.driver !== 'docker') {
       await core.group(`Creating a new builder instance`, async () => {
+        const certsDriverOpts = Buildx.resolveCertsDriverOpts(inputs.driver, inputs.endpoint, {
+          cacert: process.env[`${context.builderNodeEnvPrefix}_0_AUTH_TLS_CACERT`],
+          cert: process.env[`${context.builderNodeEnvPrefix}_0_AUTH_TLS_CERT`],
+          key: process.env[`${context.builderNodeEnvPrefix}_0_AUTH_TLS_KEY`]
+        });
+        if (certsDriverOpts.length > 0) {
+          inputs.driverOpts = [...inputs.driverOpts, ...certsDriverOpts];
+        }
         const createCmd = await toolkit.buildx.getCommand(await context.getCreateArgs(inputs, toolkit));
         core.info(`Creating builder with command: ${createCmd.command}`);
         await Exec.getExecOutput(createCmd.command, createCmd.args, {
@@ -326,16 +523,48 @@ actionsToolkit.run(
       });
     }
 
+    const appendNodes = context.getAppendNodes(inputs.append, inputs.driver);
+    if (appendNodes.length > 0) {
+      await core.group(`Appending node(s) to builder`, async () => {
+        let nodeIndex = 1;
+        for (const node of appendNodes) {
+          const certsDriverOpts = Buildx.resolveCertsDriverOpts(inputs.driver, `${node.endpoint}`, {
+            cacert: process.env[`${context.builderNodeEnvPrefix}_${nodeIndex}_AUTH_TLS_CACERT`],
+            cert: process.env[`${context.builderNodeEnvPrefix}_${nodeIndex}_AUTH_TLS_CERT`],
+            key: process.env[`${context.builderNodeEnvPrefix}_${nodeIndex}_AUTH_TLS_KEY`]
+          });
+          if (certsDriverOpts.length > 0) {
+            node['driver-opts'] = [...(node['driver-opts'] || []), ...certsDriverOpts];
+          }
+          const appendCmd = await toolkit.buildx.getCommand(await context.getAppendArgs(inputs, node, toolkit));
+          core.info(`Appending node with command: ${appendCmd.command}`);
+          await Exec.getExecOutput(appendCmd.command, appendCmd.args, {
+            ignoreReturnCode: true
+          }).then(res => {
+            if (res.stderr.length > 0 && res.exitCode != 0) {
+              throw new Error(`Failed to append node ${nodeIndex}: ${res.stderr.match(/(.*)\s*$/)?.[0]?.trim() ?? 'unknown error'}`);
+            }
+          });
+          nodeIndex++;
+        }
+      });
+    }
+
+    let bootError = '';
     await core.group(`Booting builder`, async () => {
       const inspectCmd = await toolkit.buildx.getCommand(await context.getInspectArgs(inputs, toolkit));
       await Exec.getExecOutput(inspectCmd.command, inspectCmd.args, {
         ignoreReturnCode: true
       }).then(res => {
         if (res.stderr.length > 0 && res.exitCode != 0) {
-          throw new Error(res.stderr.match(/(.*)\s*$/)?.[0]?.trim() ?? 'unknown error');
+          bootError = res.stderr.match(/(.*)\s*$/)?.[0]?.trim() ?? 'unknown error';
         }
       });
     });
+    // Without appended nodes, a boot failure can only be the builder itself.
+    if (bootError && appendNodes.length == 0) {
+      throw new Error(bootError);
+    }
 
     if (inputs.install) {
       if (standalone) {
@@ -355,6 +584,16 @@ actionsToolkit.run(
 
     const builderInspect = await toolkit.builder.inspect(inputs.name);
     const firstNode = builderInspect.nodes[0];
+    if (bootError) {
+      // Appended nodes that failed to boot are reported in the nodes output
+      // but only the first node is required to build.
+      if (firstNode?.status != 'running') {
+        throw new Error(bootError);
+      }
+      for (const node of builderInspect.nodes.slice(1).filter(node => node.status != 'running')) {
+        core.warning(`Node ${node.name} failed to boot (${node.status || 'unknown status'}): ${bootError}`);
+      }
+    }
     const containerName = `${Buildx.containerNamePrefix}${firstNode.name}`;
 
     await core.group(`Inspect builder`, async () => {
@@ -373,7 +612,7 @@ actionsToolkit.run(
       core.setOutput('nodes', JSON.stringify(builderInspect.nodes, undefined, 2));
       core.setOutput('endpoint', firstNode.endpoint); // TODO: deprecated, to be removed in a later version
       core.setOutput('status', firstNode.status); // TODO: deprecated, to be removed in a later version
-      core.setOutput('flags', firstNode['buildkitd-flags']); // TODO: deprecated, to be removed in a later version
+      core.setOutput('flags', firstNode['buildkitd-flags'] || buildkitdFlags); // TODO: deprecated, to be removed in a later version
     });
 
     if (!standalone && builderInspect.driver == 'docker-container') {
@@ -385,12 +624,23 @@ actionsToolkit.run(
         }
       });
     }
-    if (core.isDebug() || firstNode['buildkitd-flags']?.includes('--debug')) {
+    if (core.isDebug() || (firstNode['buildkitd-flags'] || buildkitdFlags).includes('--debug')) {
       stateHelper.setDebug('true');
     }
+    stateHelper.setSetupCompleted(true);
   },
   // post
   async () => {
+    if (stateHelper.buildkitCache.length > 0) {
+      await core.group(`Post BuildKit cache`, async () => {
+        try {
+          await buildkit.postCache(stateHelper.buildkitCache);
+        } catch (e) {
+          core.warning(`Failed to save BuildKit binaries to GitHub Actions cache: ${e.message}`);
+        }
+      });
+    }
+
     if (stateHelper.IsDebug && stateHelper.containerName.length > 0) {
       await core.group(`BuildKit container logs`, async () => {
         await Exec.getExecOutput('docker', ['logs', `${stateHelper.containerName}`], {
@@ -403,6 +653,14 @@ actionsToolkit.run(
       });
     }
 
+    const failed = !stateHelper.setupCompleted || (stateHelper.buildkitdPid > 0 && !(await buildkitd.isRunning(stateHelper.buildkitdPid)));
+    if (diagnostics.shouldCollect(stateHelper.diagnostics, failed)) {
+      await postDiagnostics();
+    }
+
+    // Released even without cleanup so the sticky disk is always committed.
+    const users = stateHelper.buildkitdPid > 0 ? await releaseManagedBuildkitd() : 0;
+
     if (!stateHelper.cleanup) {
       return;
     }
@@ -417,22 +675,6 @@ actionsToolkit.run(
           await Exec.getExecOutput(stopCmd.command, stopCmd.args, {
             ignoreReturnCode: true
           })
-
-          // If sticky disks are enabled, unmount the mount point.
-          try {
-            if (stateHelper.isStickyDisksEnabled) {
-              await shutdownBuildkitd();
-              await execAsync(`sudo umount ${mountPoint}`);
-              core.debug(`${device} has been unmounted`);
-              // Write /stickydisk/commit.txt to the filesystem to signal that the sticky disks are mounted.
-              var stickyDiskCommitFile = "/stickydisk/commit.txt";
-              await execAsync(`sudo mkdir -p /stickydisk`);
-              await execAsync(`sudo touch ${stickyDiskCommitFile}`);
-            }
-          } catch (error) {
-            core.error('error cleaning up sticky disks:', error);
-          }
-
           const rmCmd = await buildx.getCommand(['rm', stateHelper.builderName]);
           await Exec.getExecOutput(rmCmd.command, rmCmd.args, {
             ignoreReturnCode: true
@@ -447,6 +689,18 @@ actionsToolkit.run(
       });
     }
 
+    // The config and certificates of the managed buildkitd are in use until
+    // the last setup step releases it.
+    if (users > 0) {
+      return;
+    }
+
+    if (stateHelper.buildkitdConfig.length > 0 && fs.existsSync(stateHelper.buildkitdConfig)) {
+      await core.group(`Cleaning up buildkitd config`, async () => {
+        fs.rmSync(path.dirname(stateHelper.buildkitdConfig), {recursive: true, force: true});
+      });
+    }
+
     if (stateHelper.certsDir.length > 0 && fs.existsSync(stateHelper.certsDir)) {
       await core.group(`Cleaning up certificates`, async () => {
         fs.rmSync(stateHelper.certsDir, { recursive: true });
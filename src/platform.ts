@@ -0,0 +1,281 @@
+import {execFile} from 'child_process';
+import * as core from '@actions/core';
+import {Util} from '@docker/actions-toolkit/lib/util';
+import axios, {AxiosError} from 'axios';
+
+export const mmdsIPv4Addr = '169.254.169.254';
+
+// Environment variable selecting the runner platform when the runner-platform
+// input is not set or set to auto.
+export const platformEnv = 'BUILDX_RUNNER_PLATFORM';
+
+export const platforms = ['auto', 'blacksmith', 'none'];
+
+// Thrown when the metadata service can't serve a key. Not found and server
+// errors are transient while the host attaches the sticky disks.
+export class MetadataError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'MetadataError';
+  }
+
+  public get notFound(): boolean {
+    return this.status == 404;
+  }
+
+  public get retryable(): boolean {
+    return this.status === undefined || this.status == 401 || this.status == 404 || this.status == 429 || this.status >= 500;
+  }
+}
+
+// Thrown when the metadata service doesn't answer in time.
+export class MetadataTimeoutError extends MetadataError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataTimeoutError';
+  }
+}
+
+// Why the host agent couldn't be asked to load the sticky disks: the host
+// refused the request, socat is not installed, the request timed out or
+// failed otherwise.
+export type LoadFailure = 'refused' | 'unavailable' | 'timeout' | 'failed';
+
+export class LoadError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: LoadFailure
+  ) {
+    super(message);
+    this.name = 'LoadError';
+  }
+}
+
+// State of the sticky disks once the host has been waited on.
+export type StickyDiskState = 'loaded' | 'not-loaded' | 'not-provisioned';
+
+export interface RetryOpts {
+  // Delay before the first retry, in seconds.
+  delay: number;
+  // Upper bound of the delay between retries, in seconds.
+  maxDelay?: number;
+  // Growth factor of the delay between retries.
+  factor?: number;
+  // Randomization of each delay, as a fraction of it.
+  jitter?: number;
+  // Time after which retries stop, in seconds.
+  deadline: number;
+}
+
+// Host services the action relies on to attach and describe sticky disks.
+export interface RunnerPlatform {
+  name: string;
+  // Whether the platform can provision sticky disks at all.
+  stickyDisks: boolean;
+  // Ask the host to attach the sticky disks to the runner. Fails with a
+  // LoadError if the request is not accepted.
+  // @returns acknowledgement sent back by the host, if any
+  loadStickyDisks(timeout?: number): Promise<string>;
+  // Get the value of a metadata key set by the host. Fails with a
+  // MetadataError if the key can't be served.
+  getMetadata(key: string, timeout?: number): Promise<string>;
+}
+
+export interface BlacksmithOpts {
+  // Address of the microVM metadata service.
+  mmdsAddr?: string;
+  // VSOCK port of the host agent.
+  vsockPort?: string;
+  // socat binary used to reach the host agent.
+  socat?: string;
+}
+
+// Blacksmith microVM: metadata is served by Firecracker MMDS and sticky disks
+// are requested from the host agent over VSOCK.
+export class Blacksmith implements RunnerPlatform {
+  public readonly name = 'blacksmith';
+  public readonly stickyDisks = true;
+
+  private readonly mmdsAddr: string;
+  private readonly vsockPort?: string;
+  private readonly socat: string;
+
+  constructor(opts?: BlacksmithOpts) {
+    this.mmdsAddr = opts?.mmdsAddr || mmdsIPv4Addr;
+    this.vsockPort = opts?.vsockPort;
+    this.socat = opts?.socat || 'socat';
+  }
+
+  public async loadStickyDisks(timeout = 30): Promise<string> {
+    if (!this.vsockPort) {
+      throw new LoadError('Environment variable VSOCK_PORT is not set.', 'failed');
+    }
+    const stdout = await new Promise<string>((resolve, reject) => {
+      const child = execFile(this.socat, ['-t=15', '-', `VSOCK-CONNECT:2:${this.vsockPort}`], {timeout: timeout * 1000}, (error, stdout, stderr) => {
+        if (!error) {
+          return resolve(stdout);
+        }
+        const err = stderr.trim().split('\n').pop() || error.message;
+        if ((error as NodeJS.ErrnoException).code == 'ENOENT') {
+          reject(new LoadError('socat is not installed, cannot reach the host agent over VSOCK', 'unavailable'));
+        } else if (error.killed) {
+          reject(new LoadError(`Sticky disks load request timed out after ${timeout}s`, 'timeout'));
+        } else if (/connection refused|connection reset/i.test(err)) {
+          reject(new LoadError(`Host agent refused the sticky disks load request: ${err}`, 'refused'));
+        } else {
+          reject(new LoadError(`Sticky disks load request failed: ${err}`, 'failed'));
+        }
+      });
+      // socat may exit before reading the request, its exit status tells why.
+      child.stdin?.on('error', err => core.debug(`socat stdin: ${err.message}`));
+      child.stdin?.end('load\n');
+    });
+    core.debug(`socat stdout: ${stdout}`);
+    return parseLoadResponse(stdout);
+  }
+
+  public async getMetadata(key: string, timeout = 5): Promise<string> {
+    try {
+      const tokenResp = await axios.put(`http://${this.mmdsAddr}/latest/api/token`, null, {
+        headers: {
+          'X-metadata-token-ttl-seconds': '21600'
+        },
+        timeout: timeout * 1000
+      });
+      const resp = await axios.get(`http://${this.mmdsAddr}/${key}`, {
+        headers: {
+          'X-metadata-token': tokenResp.data
+        },
+        timeout: timeout * 1000,
+        validateStatus: () => true
+      });
+      const data = typeof resp.data === 'string' ? resp.data : JSON.stringify(resp.data);
+      if (resp.status >= 400) {
+        throw new MetadataError(`Failed to get metadata ${key} with status code ${resp.status}: ${data}`, resp.status);
+      }
+      // MMDS v1 answers missing keys with a not found fault.
+      if (data.includes('Resource not found')) {
+        throw new MetadataError(`Failed to get metadata ${key}: ${data}`, 404);
+      }
+      return data;
+    } catch (e) {
+      if (e instanceof MetadataError) {
+        throw e;
+      }
+      const err = e as AxiosError;
+      if (err.code == 'ECONNABORTED' || err.code == 'ETIMEDOUT') {
+        throw new MetadataTimeoutError(`Timed out after ${timeout}s getting metadata ${key}`);
+      }
+      throw new MetadataError(`Failed to get metadata ${key}: ${err.message}`, err.response?.status);
+    }
+  }
+}
+
+// Any other runner: no metadata service and no sticky disks.
+export class Noop implements RunnerPlatform {
+  public readonly name = 'none';
+  public readonly stickyDisks = false;
+
+  public async loadStickyDisks(): Promise<string> {
+    throw new LoadError('Sticky disks are not supported on this runner', 'unavailable');
+  }
+
+  public async getMetadata(key: string): Promise<string> {
+    throw new MetadataError(`Cannot get metadata ${key}, no metadata service on this runner`, 501);
+  }
+}
+
+/*
+ * Select the runner platform from the runner-platform input, or the
+ * BUILDX_RUNNER_PLATFORM environment variable if set to auto. Auto detection
+ * picks Blacksmith when the host agent VSOCK port is exposed.
+ * @param name: auto, blacksmith or none
+ */
+export function getPlatform(name?: string): RunnerPlatform {
+  let platform = name || 'auto';
+  if (platform == 'auto') {
+    platform = process.env[platformEnv] || 'auto';
+  }
+  if (!platforms.includes(platform)) {
+    throw new Error(`Invalid runner platform "${platform}", expected ${platforms.join(', ')}`);
+  }
+  if (platform == 'auto') {
+    platform = process.env.VSOCK_PORT ? 'blacksmith' : 'none';
+  }
+  if (platform == 'none') {
+    return new Noop();
+  }
+  return new Blacksmith({
+    mmdsAddr: process.env.BUILDX_MMDS_ADDR,
+    vsockPort: process.env.VSOCK_PORT
+  });
+}
+
+// Parses the host agent answer to a load request: the request is refused if
+// the answer starts with error, refused or nack, anything else is returned as
+// the acknowledgement.
+export function parseLoadResponse(stdout: string): string {
+  const response = stdout.trim();
+  if (/^(error|refused|denied|nack)\b/i.test(response)) {
+    throw new LoadError(`Host agent refused the sticky disks load request: ${response}`, 'refused');
+  }
+  return response;
+}
+
+// Returns the delay before the given retry, growing exponentially from
+// opts.delay up to opts.maxDelay, randomized by opts.jitter.
+export function backoff(attempt: number, opts: RetryOpts): number {
+  const delay = Math.min(opts.delay * Math.pow(opts.factor ?? 2, attempt), opts.maxDelay ?? 10);
+  const jitter = opts.jitter ?? 0.2;
+  return delay * (1 - jitter + 2 * jitter * Math.random());
+}
+
+/*
+ * Run command until it succeeds, a non retryable MetadataError is thrown or
+ * the deadline is reached
+ * @param command: command to run, given the time left before the deadline
+ * @param opts: retry options
+ */
+export async function retryCommand<T>(command: (timeLeft: number) => Promise<T>, opts: RetryOpts): Promise<T> {
+  const deadline = Date.now() + opts.deadline * 1000;
+  for (let attempt = 0; ; attempt++) {
+    const timeLeft = (deadline - Date.now()) / 1000;
+    try {
+      return await command(timeLeft);
+    } catch (error) {
+      if (error instanceof MetadataError && !error.retryable) {
+        throw error;
+      }
+      const delay = Math.min(backoff(attempt, opts), (deadline - Date.now()) / 1000);
+      if (delay <= 0) {
+        throw new MetadataTimeoutError(`Gave up after ${attempt + 1} attempts in ${opts.deadline}s: ${error.message}`);
+      }
+      core.debug(`Attempt ${attempt + 1} failed (${error.message}), retrying in ${delay.toFixed(2)}s`);
+      await Util.sleep(delay);
+    }
+  }
+}
+
+/*
+ * Wait for the host to attach the sticky disks. Returns early if the metadata
+ * reports that no sticky disk is provisioned for the job.
+ */
+export async function waitStickyDisksLoaded(runnerPlatform: RunnerPlatform, opts: RetryOpts): Promise<StickyDiskState> {
+  try {
+    if ((await runnerPlatform.getMetadata('sticky_disk_provisioned')).trim() == 'false') {
+      core.info('No sticky disk provisioned for this job');
+      return 'not-provisioned';
+    }
+  } catch (error) {
+    // Hosts that don't publish the key are waited on as before.
+    if (!(error instanceof MetadataError && error.notFound)) {
+      core.debug(`Failed to check sticky disks provisioning: ${error.message}`);
+    }
+  }
+  const loaded = await retryCommand(timeLeft => runnerPlatform.getMetadata('sticky_disk_loaded', Math.max(Math.min(timeLeft, 5), 1)), opts);
+  core.debug(`sticky_disk_loaded: ${loaded}`);
+  return loaded.trim() == 'true' ? 'loaded' : 'not-loaded';
+}
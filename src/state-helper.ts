@@ -8,6 +8,18 @@ export const containerName = process.env['STATE_containerName'] || '';
 export const certsDir = process.env['STATE_certsDir'] || '';
 export const cleanup = /true/i.test(process.env['STATE_cleanup'] || '');
 export const isStickyDisksEnabled = !!process.env['STATE_isStickyDisksEnabled'];
+export const stickyDiskDevice = process.env['STATE_stickyDiskDevice'] || '';
+export const stickyDiskMountPoint = process.env['STATE_stickyDiskMountPoint'] || '/var/lib/buildkit';
+export const stickyDiskInitialized = /true/i.test(process.env['STATE_stickyDiskInitialized'] || '');
+export const buildkitCache = process.env['STATE_buildkitCache'] || '';
+export const buildkitdConfig = process.env['STATE_buildkitdConfig'] || '';
+export const prune = process.env['STATE_prune'] || '';
+export const diagnostics = process.env['STATE_diagnostics'] || 'auto';
+export const diagnosticsOutput = process.env['STATE_diagnosticsOutput'] || 'artifact';
+export const setupCompleted = /true/i.test(process.env['STATE_setupCompleted'] || '');
+export const buildkitdEndpoint = process.env['STATE_buildkitdEndpoint'] || '';
+export const buildkitdPid = parseInt(process.env['STATE_buildkitdPid'] || '0', 10);
+export const buildkitdDriverOpts: string[] = JSON.parse(process.env['STATE_buildkitdDriverOpts'] || '[]');
 
 export function setDebug(debug: string) {
   core.saveState('isDebug', debug);
@@ -40,3 +52,51 @@ export function setCleanup(cleanup: boolean) {
 export function setStickyDisksEnabled(isStickyDisksEnabled: string) {
   core.saveState('isStickyDisksEnabled', isStickyDisksEnabled);
 }
+
+export function setStickyDiskDevice(stickyDiskDevice: string) {
+  core.saveState('stickyDiskDevice', stickyDiskDevice);
+}
+
+export function setStickyDiskMountPoint(stickyDiskMountPoint: string) {
+  core.saveState('stickyDiskMountPoint', stickyDiskMountPoint);
+}
+
+export function setStickyDiskInitialized(stickyDiskInitialized: boolean) {
+  core.saveState('stickyDiskInitialized', stickyDiskInitialized);
+}
+
+export function setBuildkitCache(buildkitCache: string) {
+  core.saveState('buildkitCache', buildkitCache);
+}
+
+export function setBuildkitdConfig(buildkitdConfig: string) {
+  core.saveState('buildkitdConfig', buildkitdConfig);
+}
+
+export function setBuildkitdEndpoint(buildkitdEndpoint: string) {
+  core.saveState('buildkitdEndpoint', buildkitdEndpoint);
+}
+
+export function setBuildkitdPid(buildkitdPid: number) {
+  core.saveState('buildkitdPid', buildkitdPid);
+}
+
+export function setBuildkitdDriverOpts(buildkitdDriverOpts: string[]) {
+  core.saveState('buildkitdDriverOpts', JSON.stringify(buildkitdDriverOpts));
+}
+
+export function setPrune(prune: string) {
+  core.saveState('prune', prune);
+}
+
+export function setDiagnostics(diagnostics: string) {
+  core.saveState('diagnostics', diagnostics);
+}
+
+export function setDiagnosticsOutput(diagnosticsOutput: string) {
+  core.saveState('diagnosticsOutput', diagnosticsOutput);
+}
+
+export function setSetupCompleted(setupCompleted: boolean) {
+  core.saveState('setupCompleted', setupCompleted);
+}
@@ -0,0 +1,345 @@
+import * as core from '@actions/core';
+import {Exec} from '@docker/actions-toolkit/lib/exec';
+import {Util} from '@docker/actions-toolkit/lib/util';
+
+import {execOrThrow} from './exec';
+
+// Written after a successful unmount to signal the host that the sticky disk
+// can be committed.
+export const commitFile = '/stickydisk/commit.txt';
+
+export const integrityPolicies = ['repair', 'wipe', 'fail'];
+
+export const filesystemTypes = ['ext4', 'xfs'];
+
+// Outcome of the integrity check done when mounting the sticky disk.
+export type Integrity = 'clean' | 'repaired' | 'wiped';
+
+// bbolt meta page magic and version, see
+// https://github.com/etcd-io/bbolt/blob/main/internal/common/meta.go
+const boltMagic = 0xed0cdaed;
+const boltVersion = 2;
+const boltPageHeaderSize = 16;
+
+// Usage of the sticky disk filesystem, in bytes.
+export interface DiskStats {
+  size: number;
+  used: number;
+  free: number;
+  // Whether the BuildKit root holds no cache at all.
+  empty: boolean;
+}
+
+// Block device as reported by lsblk --json.
+export interface BlockDevice {
+  name: string;
+  path?: string;
+  label?: string | null;
+  serial?: string | null;
+  children?: Array<BlockDevice>;
+}
+
+// Thrown when the sticky disk is corrupted and the integrity policy is fail.
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+export function findBlockDevice(devices: Array<BlockDevice>, key: 'path' | 'label' | 'serial', value: string): BlockDevice | undefined {
+  for (const device of devices) {
+    if (device[key] == value) {
+      return device;
+    }
+    const child = findBlockDevice(device.children || [], key, value);
+    if (child) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+/*
+ * Resolve the sticky disk block device with lsblk
+ * @param spec: device path, LABEL=<label> or SERIAL=<serial>
+ * @returns device path or empty string if not found
+ */
+export async function resolveDevice(spec: string): Promise<string> {
+  const res = await Exec.getExecOutput('lsblk', ['--json', '-o', 'NAME,PATH,LABEL,SERIAL'], {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  if (res.exitCode != 0) {
+    core.debug(`lsblk failed: ${res.stderr.trim()}`);
+    return '';
+  }
+  const devices: Array<BlockDevice> = JSON.parse(res.stdout).blockdevices || [];
+  const sep = spec.indexOf('=');
+  const key = sep > 0 ? spec.substring(0, sep).toLowerCase() : 'path';
+  if (key != 'path' && key != 'label' && key != 'serial') {
+    throw new Error(`Invalid sticky disk device "${spec}", expected a path, LABEL=<label> or SERIAL=<serial>`);
+  }
+  const device = findBlockDevice(devices, key, sep > 0 ? spec.substring(sep + 1) : spec);
+  if (!device || !device.path) {
+    core.info(`Sticky disk ${spec} not found`);
+    return '';
+  }
+  return device.path;
+}
+
+// Probes the device superblock for a tag, bypassing the blkid cache which may
+// be stale for a freshly attached disk.
+// @returns tag value, empty string if no filesystem is found on device
+// @throws if the device can't be probed
+async function blkid(device: string, tag: string): Promise<string> {
+  const res = await Exec.getExecOutput('sudo', ['blkid', '-p', '-o', 'value', '-s', tag, device], {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  // blkid exits with 2 when nothing is identified on the device.
+  if (res.exitCode == 2) {
+    return '';
+  }
+  if (res.exitCode != 0) {
+    throw new Error(`Cannot probe ${device}: ${res.stderr.match(/(.*)\s*$/)?.[0]?.trim() || `blkid exited with code ${res.exitCode}`}`);
+  }
+  return res.stdout.trim();
+}
+
+export async function getFilesystemType(device: string): Promise<string> {
+  return blkid(device, 'TYPE');
+}
+
+export async function getFilesystemLabel(device: string): Promise<string> {
+  return blkid(device, 'LABEL');
+}
+
+/*
+ * Run a read-only check of the filesystem on device
+ * @returns true if the filesystem is clean, false if it is corrupted
+ * @throws if the check itself failed, eg. the checker is not installed or the
+ * device is busy
+ */
+export async function checkFilesystem(device: string, fsType: string): Promise<boolean> {
+  let args: string[];
+  if (fsType == 'xfs') {
+    args = ['xfs_repair', '-n', device];
+  } else if (fsType.startsWith('ext')) {
+    args = ['e2fsck', '-f', '-n', device];
+  } else {
+    args = ['fsck', '-n', device];
+  }
+  const res = await Exec.getExecOutput('sudo', args, {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  core.debug(`${args[0]} exited with code ${res.exitCode}: ${res.stdout}${res.stderr}`);
+  const err = res.stderr.match(/(.*)\s*$/)?.[0]?.trim() || `${args[0]} exited with code ${res.exitCode}`;
+  // sudo exits with 1 too when the checker is not installed.
+  if (/command not found/.test(res.stderr)) {
+    throw new Error(`Cannot check filesystem on ${device}: ${err}`);
+  }
+  if (fsType == 'xfs') {
+    // xfs_repair -n exits with 1 when it finds corruption.
+    if (res.exitCode > 1) {
+      throw new Error(`Cannot check filesystem on ${device}: ${err}`);
+    }
+    return res.exitCode == 0;
+  }
+  // fsck exit codes are flags: 1 and 2 report corrected errors, 4 uncorrected
+  // errors and 8 and above an operational error.
+  if (res.exitCode >= 8) {
+    throw new Error(`Cannot check filesystem on ${device}: ${err}`);
+  }
+  return (res.exitCode & 4) == 0;
+}
+
+export async function repairFilesystem(device: string, fsType: string): Promise<void> {
+  let args: string[];
+  if (fsType == 'xfs') {
+    args = ['xfs_repair', device];
+  } else if (fsType.startsWith('ext')) {
+    args = ['e2fsck', '-f', '-y', device];
+  } else {
+    args = ['fsck', '-y', device];
+  }
+  const res = await Exec.getExecOutput('sudo', args, {
+    ignoreReturnCode: true,
+    silent: true
+  });
+  // fsck exits with 1 when errors were corrected.
+  if (res.exitCode > 1 || (fsType == 'xfs' && res.exitCode != 0)) {
+    throw new Error(`Failed to repair filesystem on ${device}: ${res.stderr.match(/(.*)\s*$/)?.[0]?.trim() || `${args[0]} exited with code ${res.exitCode}`}`);
+  }
+}
+
+export async function formatFilesystem(device: string, fsType: string, label?: string): Promise<void> {
+  const args = [`mkfs.${fsType}`, fsType == 'xfs' ? '-f' : '-F'];
+  if (label) {
+    args.push('-L', label);
+  }
+  await execOrThrow('sudo', [...args, device]);
+}
+
+/*
+ * Create a filesystem on a sticky disk that doesn't hold one yet, eg. the
+ * first time a fresh disk is attached
+ * @param device: sticky disk block device
+ * @param fsType: filesystem type to create (ext4 or xfs)
+ * @param label: filesystem label
+ * @returns true if the disk has been formatted
+ */
+export async function initialize(device: string, fsType: string, label?: string): Promise<boolean> {
+  if (!filesystemTypes.includes(fsType)) {
+    throw new Error(`Invalid sticky disk filesystem type "${fsType}", expected ${filesystemTypes.join(', ')}`);
+  }
+  // Labels are limited to 12 characters on xfs and 16 on ext4.
+  if (label && label.length > (fsType == 'xfs' ? 12 : 16)) {
+    throw new Error(`Sticky disk label "${label}" is too long for ${fsType}`);
+  }
+  if (await getFilesystemType(device)) {
+    return false;
+  }
+  core.info(`No filesystem found on ${device}, creating ${fsType}${label ? ` labeled ${label}` : ''}`);
+  await formatFilesystem(device, fsType, label);
+  return true;
+}
+
+// Checks that a bbolt database header holds at least one valid meta page.
+// The second meta page is looked up at the page size of the first one,
+// falling back to 4096 if the first one is torn.
+export function isValidBoltHeader(header: Buffer): boolean {
+  const validMeta = (offset: number): boolean => {
+    const meta = offset + boltPageHeaderSize;
+    return header.length >= meta + 12 && header.readUInt32LE(meta) == boltMagic && header.readUInt32LE(meta + 4) == boltVersion;
+  };
+  if (validMeta(0)) {
+    return true;
+  }
+  const pageSize = header.length >= boltPageHeaderSize + 12 ? header.readUInt32LE(boltPageHeaderSize + 8) : 0;
+  return validMeta(pageSize > 0 && pageSize <= 65536 ? pageSize : 4096);
+}
+
+async function readHeader(file: string, length: number): Promise<Buffer> {
+  // The BuildKit root is owned by root, so the header is dumped as hex.
+  const res = await execOrThrow('sudo', ['od', '-A', 'n', '-v', '-t', 'x1', '-N', `${length}`, file]);
+  return Buffer.from(res.stdout.replace(/\s+/g, ''), 'hex');
+}
+
+/*
+ * Validate the bbolt metadata databases of the BuildKit root
+ * @param root: BuildKit root directory
+ * @returns paths of the corrupted databases
+ */
+export async function validateMetadata(root: string): Promise<string[]> {
+  const res = await execOrThrow('sudo', ['find', root, '-maxdepth', '3', '-type', 'f', '-name', '*.db']);
+  const invalid: string[] = [];
+  for (const file of res.stdout.split('\n').filter(line => line.trim().length > 0)) {
+    if (!isValidBoltHeader(await readHeader(file, 65536 + 64))) {
+      invalid.push(file);
+    }
+  }
+  return invalid;
+}
+
+export async function wipe(root: string): Promise<void> {
+  await execOrThrow('sudo', ['find', root, '-mindepth', '1', '-delete']);
+}
+
+/*
+ * Check the sticky disk filesystem, mount it and validate the BuildKit
+ * metadata on it. Corruption is handled according to policy: repair fixes the
+ * filesystem with fsck and drops the cache if its metadata is corrupted, wipe
+ * reformats or empties the disk and fail throws an IntegrityError.
+ * @param label: label given to the filesystem if reformatted and it had none
+ * @returns outcome of the integrity check
+ */
+export async function mount(device: string, mountPoint: string, policy: string, label?: string): Promise<Integrity> {
+  if (!integrityPolicies.includes(policy)) {
+    throw new Error(`Invalid sticky disk integrity policy "${policy}", expected ${integrityPolicies.join(', ')}`);
+  }
+  let integrity: Integrity = 'clean';
+  const fsType = await getFilesystemType(device);
+  if (!(await checkFilesystem(device, fsType))) {
+    core.warning(`Filesystem check of ${device} found errors`);
+    if (policy == 'fail') {
+      throw new IntegrityError(`Filesystem on ${device} is corrupted`);
+    } else if (policy == 'repair') {
+      await repairFilesystem(device, fsType);
+      integrity = 'repaired';
+    } else {
+      // Keep the label the disk is looked up with (sticky-disk-device: LABEL=).
+      await formatFilesystem(device, fsType || 'ext4', (await getFilesystemLabel(device)) || label);
+      integrity = 'wiped';
+    }
+  }
+  await execOrThrow('sudo', ['mkdir', '-p', mountPoint]);
+  await execOrThrow('sudo', ['mount', device, mountPoint]);
+  const invalid = await validateMetadata(mountPoint);
+  if (invalid.length > 0) {
+    core.warning(`Corrupted BuildKit metadata: ${invalid.join(', ')}`);
+    if (policy == 'fail') {
+      throw new IntegrityError(`BuildKit metadata on ${device} is corrupted`);
+    }
+    // bbolt databases can't be repaired, drop the cache instead.
+    await wipe(mountPoint);
+    integrity = 'wiped';
+  }
+  return integrity;
+}
+
+// Parses the output of "df -B1 --output=size,used,avail".
+export function parseDf(stdout: string): Omit<DiskStats, 'empty'> {
+  const fields = stdout.trim().split(/\r?\n/).pop()?.trim().split(/\s+/) || [];
+  if (fields.length < 3 || fields.some(field => !/^\d+$/.test(field))) {
+    throw new Error(`Cannot parse df output: ${stdout.trim()}`);
+  }
+  return {
+    size: parseInt(fields[0], 10),
+    used: parseInt(fields[1], 10),
+    free: parseInt(fields[2], 10)
+  };
+}
+
+export async function getStats(mountPoint: string): Promise<DiskStats> {
+  const df = await execOrThrow('df', ['-B1', '--output=size,used,avail', mountPoint]);
+  const entries = await execOrThrow('sudo', ['find', mountPoint, '-mindepth', '1', '-maxdepth', '1', '!', '-name', 'lost+found']);
+  return {
+    ...parseDf(df.stdout),
+    empty: entries.stdout.trim().length == 0
+  };
+}
+
+export async function sync(): Promise<void> {
+  await execOrThrow('sudo', ['sync']);
+}
+
+/*
+ * Unmount the sticky disk, retrying with a linear backoff while it's busy
+ * @param mountPoint: mount point of the sticky disk
+ * @param retries: number of attempts
+ */
+export async function unmount(mountPoint: string, retries = 5): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    const res = await Exec.getExecOutput('sudo', ['umount', mountPoint], {
+      ignoreReturnCode: true,
+      silent: true
+    });
+    if (res.exitCode == 0) {
+      core.info(`${mountPoint} has been unmounted`);
+      return;
+    }
+    const err = res.stderr.match(/(.*)\s*$/)?.[0]?.trim() || `umount exited with code ${res.exitCode}`;
+    if (attempt >= retries) {
+      throw new Error(`Failed to unmount ${mountPoint} after ${attempt} attempts: ${err}`);
+    }
+    core.info(`Failed to unmount ${mountPoint} (${err}), retrying in ${attempt}s`);
+    await Util.sleep(attempt);
+  }
+}
+
+export async function commit(): Promise<void> {
+  await execOrThrow('sudo', ['mkdir', '-p', '/stickydisk']);
+  await execOrThrow('sudo', ['touch', commitFile]);
+}